@@ -0,0 +1,406 @@
+import { readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { clusterApiUrl, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { getTreeConfig } from '../client/src/lib/bubblegum';
+import { estimateTreeCost, formatSol, getCostTable, type PriorityFee } from '../client/src/lib/costs';
+import {
+  BlockhashExpired,
+  classifyError,
+  InsufficientFunds,
+  InvalidConfig,
+  ProgramError,
+  RpcAuthError,
+  RpcUnreachable,
+  SoltreeError
+} from '../client/src/lib/errors';
+import {
+  buildCreateTreeTransaction,
+  createTree,
+  getTreeInfo,
+  isValidDepthSizePair,
+  MAX_CANOPY_DEPTH,
+  type ValidDepthSizePair
+} from '../client/src/lib/merkle-tree';
+import { planTree } from '../client/src/lib/planner';
+import { preflightCreateTree } from '../client/src/lib/preflight';
+import {
+  DEFAULT_CREATE_TREE_COMPUTE_UNITS,
+  estimatePriorityFees,
+  resolvePriorityFee,
+  type PriorityLevel
+} from '../client/src/lib/priority-fees';
+import { formatTransactionError } from '../client/src/lib/program-errors';
+import { getTreeHistoryPage } from '../client/src/lib/tree-history';
+
+const USAGE = `Usage: soltree <command> [options]
+
+Commands:
+  plan --mints <n> --max-proof-bytes <n> [--concurrency <n>]
+                              Recommend a tree configuration and its cost
+  create --depth <n> --buffer <n> [--canopy <n>] [--public] [--keypair <path>] [--dry-run]
+         [--priority <low|medium|high|microlamports>] [--compute-units <n>]
+                              Create a Bubblegum tree paid for by the keypair
+  info <tree>                 Show a tree's parameters, fill level and config
+  history <tree> [--limit <n>] [--before <signature>]
+                              List finalized transactions for a tree
+  cost-table [--proof-size <n>]
+                              Cost of every supported depth and buffer size
+
+Options:
+  --rpc <url>        RPC endpoint (default: $SOLANA_RPC_URL or devnet)
+  --keypair <path>   Payer keypair file (default: ~/.config/solana/id.json)
+  --dry-run          Preflight the create transaction without signing or sending it
+  --priority <fee>   Priority fee level priced from recent network-wide fees, or microlamports per compute unit
+  --compute-units <n>
+                     Compute unit limit for create (default: ${DEFAULT_CREATE_TREE_COMPUTE_UNITS})
+  --json             Print machine-readable JSON
+  -h, --help         Show this help
+
+Exit codes: 1 error, 2 invalid usage or config, 3 RPC auth, 4 RPC unreachable,
+  5 insufficient funds, 6 blockhash expired, 7 program error`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Distinct exit codes so pipelines can branch on the failure without parsing output
+const EXIT_CODES: [abstract new (...args: never[]) => Error, number][] = [
+  [UsageError, 2],
+  [InvalidConfig, 2],
+  [RpcAuthError, 3],
+  [RpcUnreachable, 4],
+  [InsufficientFunds, 5],
+  [BlockhashExpired, 6],
+  [ProgramError, 7]
+];
+
+function parseInteger(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new UsageError(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function requireInteger(name: string, value: string | undefined): number {
+  const parsed = parseInteger(name, value);
+  if (parsed === undefined) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return parsed;
+}
+
+function requireAddress(value: string | undefined): PublicKey {
+  if (!value) {
+    throw new UsageError('A tree address is required');
+  }
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new UsageError(`Invalid tree address "${value}"`);
+  }
+}
+
+// Same JSON byte array format the Solana CLI writes
+function loadKeypair(file: string): Keypair {
+  const resolved = file.startsWith('~') ? path.join(os.homedir(), file.slice(1)) : file;
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(resolved, 'utf8'))));
+  } catch (error) {
+    throw new Error(`Failed to load keypair from ${resolved}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const PRIORITY_LEVELS: PriorityLevel[] = ['low', 'medium', 'high'];
+
+// No compute budget instructions unless --priority or --compute-units is given
+async function getPriorityFeeOption(
+  connection: Connection,
+  priority: string | undefined,
+  computeUnits: number | undefined
+): Promise<PriorityFee | undefined> {
+  if (priority === undefined && computeUnits === undefined) {
+    return undefined;
+  }
+  const computeUnitLimit = computeUnits ?? DEFAULT_CREATE_TREE_COMPUTE_UNITS;
+  if (priority === undefined) {
+    return resolvePriorityFee(null, 'custom', 0, computeUnitLimit);
+  }
+  if (PRIORITY_LEVELS.includes(priority as PriorityLevel)) {
+    // Creation write-locks no contended accounts, so the network-wide level is the one to beat
+    const estimate = await estimatePriorityFees(connection);
+    return resolvePriorityFee(estimate, priority as PriorityLevel, 0, computeUnitLimit);
+  }
+  return resolvePriorityFee(null, 'custom', parseInteger('priority', priority) ?? 0, computeUnitLimit);
+}
+
+function cell(value: string | number, width: number): string {
+  return String(value).padStart(width);
+}
+
+async function runCommand(command: string, positionals: string[], values: Record<string, string | boolean | undefined>) {
+  const option = (name: string) => values[name] as string | undefined;
+  const connection = new Connection(option('rpc') || process.env.SOLANA_RPC_URL || clusterApiUrl('devnet'), 'confirmed');
+
+  switch (command) {
+    case 'plan': {
+      const input = {
+        expectedMints: requireInteger('mints', option('mints')),
+        concurrentMintsPerSlot: parseInteger('concurrency', option('concurrency')) ?? 1,
+        maxProofBytes: requireInteger('max-proof-bytes', option('max-proof-bytes'))
+      };
+      const plan = await planTree(connection, input);
+      return {
+        data: plan,
+        text: () => {
+          const lines = plan.candidates.map((candidate) => {
+            const [depth, buffer] = candidate.maxDepthSizePair;
+            const marker = candidate === plan.recommended ? '*' : ' ';
+            return `${marker} Depth ${cell(depth, 2)}, Buffer ${cell(buffer, 4)}, Canopy ${cell(candidate.canopyDepth, 2)} | ` +
+              `NFTs ${cell(candidate.capacity.toLocaleString(), 13)} | Proof ${cell(candidate.proofBytes, 4)} bytes | ${formatSol(candidate.cost.totalLamports)} SOL`;
+          });
+          if (!plan.recommended) {
+            lines.unshift('No supported configuration meets these targets');
+          }
+          return lines.join('\n');
+        }
+      };
+    }
+
+    case 'create': {
+      const maxDepth = requireInteger('depth', option('depth'));
+      const maxBufferSize = requireInteger('buffer', option('buffer'));
+      const canopyDepth = parseInteger('canopy', option('canopy')) ?? 0;
+      if (!isValidDepthSizePair(maxDepth, maxBufferSize)) {
+        throw new InvalidConfig(`(${maxDepth}, ${maxBufferSize}) is not a supported depth and buffer size pair`, 'buffer');
+      }
+      if (canopyDepth >= maxDepth || canopyDepth > MAX_CANOPY_DEPTH) {
+        throw new InvalidConfig(`--canopy must be less than --depth and at most ${MAX_CANOPY_DEPTH}`, 'canopy');
+      }
+
+      const payer = loadKeypair(option('keypair') || '~/.config/solana/id.json');
+      const params = { maxDepth, maxBufferSize, canopyDepth, public: values.public === true };
+      const priorityFee = await getPriorityFeeOption(
+        connection,
+        option('priority'),
+        parseInteger('compute-units', option('compute-units'))
+      );
+
+      if (values['dry-run']) {
+        const built = await buildCreateTreeTransaction(
+          connection,
+          payer.publicKey,
+          Keypair.generate(),
+          params,
+          payer.publicKey,
+          priorityFee,
+          console.error
+        );
+        const report = await preflightCreateTree(connection, built, params);
+        if (!report.ok) {
+          process.exitCode = 1;
+        }
+        return {
+          data: {
+            dryRun: true,
+            payer: payer.publicKey.toString(),
+            treeAddress: built.treeAddress,
+            treeConfigAddress: built.treeConfigAddress,
+            priorityFee: priorityFee ?? null,
+            preflight: report
+          },
+          text: () => [
+            `Preflight ${report.ok ? 'passed' : 'failed'}${report.error ? `: ${formatTransactionError(report.error)}` : ''}`,
+            `Compute units: ${report.unitsConsumed ?? 'unknown'}${priorityFee ? ` (limit ${priorityFee.computeUnitLimit}, ${priorityFee.microLamportsPerComputeUnit} microlamports/CU)` : ''}`,
+            `Cost: ${formatSol(report.totalLamports)} SOL (balance ${formatSol(report.balanceLamports)} SOL)`,
+            ...(report.shortfallLamports > 0 ? [`Shortfall: ${formatSol(report.shortfallLamports)} SOL`] : []),
+            ...(report.error ? report.logs.map((log) => `  ${log}`) : [])
+          ].join('\n')
+        };
+      }
+
+      const [cost, balance] = await Promise.all([
+        estimateTreeCost(connection, params, priorityFee),
+        connection.getBalance(payer.publicKey)
+      ]);
+
+      if (balance < cost.totalLamports) {
+        throw new InsufficientFunds(
+          `Payer ${payer.publicKey.toString()} has ${formatSol(balance)} SOL but the tree costs ${formatSol(cost.totalLamports)} SOL`,
+          cost.totalLamports,
+          balance
+        );
+      }
+      const created = await createTree(
+        connection,
+        payer,
+        Keypair.generate(),
+        [maxDepth, maxBufferSize] as ValidDepthSizePair,
+        canopyDepth,
+        {
+          public: params.public,
+          priorityFee,
+          // Progress goes to stderr so stdout only carries the result
+          log: console.error,
+          onProgress: (progress) => console.error(`Transaction ${progress.status} (sent ${progress.sends}x): ${progress.signature}`)
+        }
+      );
+      return {
+        data: { ...created, cost },
+        text: () => [
+          `Tree:        ${created.treeAddress}`,
+          `Tree config: ${created.treeConfigAddress}`,
+          `Signature:   ${created.signature}`,
+          `Cost:        ${formatSol(cost.totalLamports)} SOL` +
+            (priorityFee ? ` (priority fee ${formatSol(cost.priorityFeeLamports)} SOL)` : '')
+        ].join('\n')
+      };
+    }
+
+    case 'info': {
+      const address = requireAddress(positionals[0]);
+      const [tree, config] = await Promise.all([getTreeInfo(connection, address), getTreeConfig(connection, address)]);
+      if (!tree) {
+        throw new Error(`No concurrent merkle tree found at ${address.toString()}`);
+      }
+      const info = {
+        address: address.toString(),
+        maxDepth: tree.maxDepth,
+        maxBufferSize: tree.maxBufferSize,
+        canopyDepth: tree.canopyDepth,
+        capacity: Math.pow(2, tree.maxDepth),
+        leavesUsed: tree.rightmostIndex,
+        sequenceNumber: tree.sequenceNumber,
+        authority: tree.authority.toString(),
+        creationSlot: tree.creationSlot,
+        currentRoot: new PublicKey(tree.currentRoot).toString(),
+        config: config && {
+          address: config.address.toString(),
+          treeCreator: config.treeCreator.toString(),
+          treeDelegate: config.treeDelegate.toString(),
+          numMinted: config.numMinted,
+          totalMintCapacity: config.totalMintCapacity,
+          isPublic: config.isPublic
+        }
+      };
+      return {
+        data: info,
+        text: () => [
+          `Tree:          ${info.address}`,
+          `Depth/Buffer:  ${info.maxDepth} / ${info.maxBufferSize}, canopy ${info.canopyDepth}`,
+          `Leaves used:   ${info.leavesUsed.toLocaleString()} of ${info.capacity.toLocaleString()}`,
+          `Sequence:      ${info.sequenceNumber}`,
+          `Root:          ${info.currentRoot}`,
+          `Created slot:  ${info.creationSlot}`,
+          info.config
+            ? `Tree creator:  ${info.config.treeCreator}${info.config.isPublic ? ' (public)' : ''}\nTree delegate: ${info.config.treeDelegate}`
+            : 'Tree config:   not found (not a Bubblegum tree)'
+        ].join('\n')
+      };
+    }
+
+    case 'history': {
+      const address = requireAddress(positionals[0]);
+      const page = await getTreeHistoryPage(connection, address, {
+        before: option('before'),
+        limit: parseInteger('limit', option('limit'))
+      });
+      return {
+        data: page,
+        text: () => {
+          const lines = page.entries.map((entry) => {
+            const time = entry.blockTime ? new Date(entry.blockTime * 1000).toISOString() : `slot ${entry.slot}`;
+            const leaves = entry.changes.map((change) => change.leafIndex).join(',') || '-';
+            return `${time}  ${entry.signature}  ${entry.failed ? 'failed' : entry.instructions.join(',') || '-'}  leaves ${leaves}`;
+          });
+          if (page.nextBefore) {
+            lines.push(`More: --before ${page.nextBefore}`);
+          }
+          return lines.length > 0 ? lines.join('\n') : 'No finalized transactions found';
+        }
+      };
+    }
+
+    case 'cost-table': {
+      const rows = await getCostTable(connection, parseInteger('proof-size', option('proof-size')));
+      if (rows.some((row) => row.error)) {
+        process.exitCode = 1;
+      }
+      return {
+        data: rows,
+        text: () => [
+          ...rows.map((row) =>
+            `Depth ${cell(row.maxDepth, 2)}, Buffer ${cell(row.maxBufferSize, 4)}, Canopy ${cell(row.canopyDepth, 2)} | ` +
+            `NFTs ${cell(row.capacity.toLocaleString(), 13)} | ${row.cost ? `${formatSol(row.cost.totalLamports)} SOL` : row.error}`
+          ),
+          '',
+          'Costs include tree rent, TreeConfig rent and the base transaction fee.'
+        ].join('\n')
+      };
+    }
+
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+async function main() {
+  // Read before parsing so invalid usage is still reported as JSON
+  const json = process.argv.slice(2).includes('--json');
+  try {
+    const { values, positionals } = parseArgs({
+      allowPositionals: true,
+      options: {
+        rpc: { type: 'string' },
+        keypair: { type: 'string' },
+        depth: { type: 'string' },
+        buffer: { type: 'string' },
+        canopy: { type: 'string' },
+        public: { type: 'boolean' },
+        mints: { type: 'string' },
+        concurrency: { type: 'string' },
+        'max-proof-bytes': { type: 'string' },
+        'proof-size': { type: 'string' },
+        limit: { type: 'string' },
+        before: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        priority: { type: 'string' },
+        'compute-units': { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+
+    const [command, ...rest] = positionals;
+    if (values.help || !command) {
+      process.stdout.write(`${USAGE}\n`);
+      return;
+    }
+
+    const result = await runCommand(command, rest, values);
+    process.stdout.write(`${json ? JSON.stringify(result.data, null, 2) : result.text()}\n`);
+  } catch (error) {
+    // parseArgs rejects unknown or malformed options with ERR_PARSE_ARGS_* codes
+    const isParseError = (error as { code?: string } | null)?.code?.startsWith('ERR_PARSE_ARGS') === true;
+    const isUsage = error instanceof UsageError || isParseError;
+    const failure = isParseError ? new UsageError((error as Error).message) : isUsage ? (error as Error) : classifyError(error);
+    const match = EXIT_CODES.find(([type]) => failure instanceof type);
+
+    if (json) {
+      const logs = failure instanceof SoltreeError ? failure.logs : [];
+      process.stdout.write(`${JSON.stringify({ error: { type: failure.name, message: failure.message, logs } }, null, 2)}\n`);
+    } else {
+      console.error(`Error: ${failure.message}`);
+      if (isUsage) console.error(`\n${USAGE}`);
+    }
+    process.exitCode = isUsage ? 2 : match ? match[1] : 1;
+  }
+}
+
+main();
@@ -1,7 +1,6 @@
 import React, { useState } from 'react'
 import { WalletAdapterNetwork } from '@solana/wallet-adapter-base'
 import {
-  ConnectionProvider,
   WalletProvider,
   useConnection,
   useWallet
@@ -12,12 +11,49 @@ import {
 } from '@solana/wallet-adapter-react-ui'
 import { PhantomWalletAdapter } from '@solana/wallet-adapter-phantom'
 import { SolflareWalletAdapter } from '@solana/wallet-adapter-solflare'
-import { clusterApiUrl, Connection, PublicKey as SolanaPublicKey } from '@solana/web3.js'
-import { createMerkleTree, createTree, isValidDepthSizePair, ALL_DEPTH_SIZE_PAIRS, calculateCosts } from './lib/merkle-tree'
+import { clusterApiUrl, Connection, Keypair, PublicKey as SolanaPublicKey } from '@solana/web3.js'
+import {
+  buildCreateTreeTransaction,
+  sendCreateTreeTransaction,
+  recoverExpiredCreateTree,
+  createTree,
+  isValidDepthSizePair,
+  ALL_DEPTH_SIZE_PAIRS,
+  type CreateMerkleTreeResult,
+  type CreateTreeTransaction,
+  type MerkleTreeParams
+} from './lib/merkle-tree'
+import { estimateTreeCost, formatSol, type TreeCostBreakdown } from './lib/costs'
+import { preflightCreateTree, type PreflightReport } from './lib/preflight'
+import {
+  DEFAULT_CREATE_TREE_COMPUTE_UNITS,
+  estimatePriorityFees,
+  resolvePriorityFee,
+  type PriorityFeeChoice,
+  type PriorityFeeEstimate
+} from './lib/priority-fees'
+import { formatTransactionError } from './lib/program-errors'
+import { describeError, InvalidConfig, TransactionExpired } from './lib/errors'
+import { waitForFinalization, type SendProgress } from './lib/transaction-sender'
+import { detectCluster, getClusterLabel, getExplorerUrl, walletNetworkToCluster, clusterToWalletNetwork, type Cluster } from './lib/cluster'
 import { Button } from './components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card'
 import { useToast } from './hooks/use-toast'
+import { RpcProvider, useRpc } from './hooks/use-rpc'
+import { getEndpointHost } from './lib/rpc-failover'
 import { Toaster } from './components/ui/toaster'
+import { TreeInspector } from './components/tree-inspector'
+import { CapacityPlanner } from './components/capacity-planner'
+import { MintPanel } from './components/mint-panel'
+import { BatchMintPanel } from './components/batch-mint-panel'
+import { CnftManagePanel } from './components/cnft-manage-panel'
+import { TreeContents } from './components/tree-contents'
+import { TreeHistory } from './components/tree-history'
+import { TreeRegistryPanel } from './components/tree-registry-panel'
+import { PreflightReportView } from './components/preflight-report'
+import { SendProgressView } from './components/send-progress'
+import { RpcDiagnosticsPanel } from './components/rpc-diagnostics-panel'
+import { loadTreeRegistry, saveTreeRegistry, upsertRegisteredTree, type TreeRegistry } from './lib/tree-registry'
 
 import '@solana/wallet-adapter-react-ui/styles.css'
 import './styles/wallet.css'
@@ -27,17 +63,42 @@ const wallets = [
   new SolflareWalletAdapter()
 ]
 
-function MerkleTreeCreator() {
+interface MerkleTreeCreatorProps {
+  walletNetwork: WalletAdapterNetwork
+  onWalletNetworkChange: (network: WalletAdapterNetwork) => void
+}
+
+// A create transaction that expired unconfirmed, kept so it can be re-signed for the same tree address
+interface ExpiredCreate {
+  built: CreateTreeTransaction
+  treeKeypair: Keypair
+  signature: string
+  params: MerkleTreeParams
+}
+
+function MerkleTreeCreator({ walletNetwork, onWalletNetworkChange }: MerkleTreeCreatorProps) {
   const [selectedDepthSizePair, setSelectedDepthSizePair] = useState<string>('5,8')
   const [canopyDepth, setCanopyDepth] = useState(0)
   const [isCreating, setIsCreating] = useState(false)
   const [customRpc, setCustomRpc] = useState('')
-  const [detectedNetwork, setDetectedNetwork] = useState<'devnet' | 'mainnet' | null>(null)
+  const [fallbackRpcs, setFallbackRpcs] = useState('')
+  const [detectedNetwork, setDetectedNetwork] = useState<Cluster | null>(null)
+  const [genesisHash, setGenesisHash] = useState<string | null>(null)
   const [rpcVerified, setRpcVerified] = useState(false)
   const [isVerifying, setIsVerifying] = useState(false)
   const [configValid, setConfigValid] = useState<boolean | null>(null)
   const [isValidating, setIsValidating] = useState(false)
   const [sourceCodeAvailable, setSourceCodeAvailable] = useState(false)
+  const [costBreakdown, setCostBreakdown] = useState<TreeCostBreakdown | null>(null)
+  const [costError, setCostError] = useState<string | null>(null)
+  const [preflightReport, setPreflightReport] = useState<PreflightReport | null>(null)
+  const [priorityChoice, setPriorityChoice] = useState<PriorityFeeChoice>('medium')
+  const [customPriorityFee, setCustomPriorityFee] = useState('')
+  const [computeUnitLimit, setComputeUnitLimit] = useState(String(DEFAULT_CREATE_TREE_COMPUTE_UNITS))
+  const [feeEstimate, setFeeEstimate] = useState<PriorityFeeEstimate | null>(null)
+  const [isEstimatingFees, setIsEstimatingFees] = useState(false)
+  const [sendProgress, setSendProgress] = useState<SendProgress | null>(null)
+  const [expiredCreate, setExpiredCreate] = useState<ExpiredCreate | null>(null)
   const [completedTree, setCompletedTree] = useState<{
     treeAddress: string
     treeConfigAddress: string
@@ -48,14 +109,26 @@ function MerkleTreeCreator() {
     network: string
     timestamp: string
   } | null>(null)
+  const [treeRegistry, setTreeRegistry] = useState<TreeRegistry>(loadTreeRegistry)
   
+  // The one Connection for creation and the tree panels; it follows the verified RPC and fails over
   const { connection } = useConnection()
-  const { publicKey, signTransaction, signAllTransactions } = useWallet()
+  const rpc = useRpc()
+  const { publicKey, signTransaction } = useWallet()
   const { toast } = useToast()
   
-  // Calculate and display all costs on component mount
+  // Creation is blocked while the wallet and the RPC point at different clusters
+  const walletCluster = walletNetworkToCluster(walletNetwork)
+  const clusterMismatch = rpcVerified && detectedNetwork !== null && detectedNetwork !== walletCluster
+  const mismatchWalletNetwork = detectedNetwork ? clusterToWalletNetwork(detectedNetwork) : null
+  
+  // Persist the registry whenever it changes
+  React.useEffect(() => {
+    saveTreeRegistry(treeRegistry)
+  }, [treeRegistry])
+  
+  // Check source code availability on component mount
   React.useEffect(() => {
-    calculateCosts()
     checkSourceCodeAvailability()
   }, [])
   
@@ -69,31 +142,9 @@ function MerkleTreeCreator() {
     }
   }
 
-  const determineNetworkFromRpc = () => {
-    const rpcToCheck = customRpc && customRpc.trim() ? customRpc.trim() : ''
-    
-    console.log('Determining network from RPC endpoint:', rpcToCheck)
-    
-    if (rpcToCheck.toLowerCase().includes('devnet')) {
-      console.log('DEVNET detected from RPC URL')
-      setDetectedNetwork('devnet')
-    } else if (rpcToCheck.toLowerCase().includes('mainnet')) {
-      console.log('MAINNET detected from RPC URL')
-      setDetectedNetwork('mainnet')
-    } else {
-      // Default to devnet for testing
-      console.log('No network specified in RPC, defaulting to DEVNET')
-      setDetectedNetwork('devnet')
-    }
-  }
-
   // Reset states when wallet connects/disconnects
   React.useEffect(() => {
     if (publicKey) {
-      // When wallet connects, determine network from RPC input or default to mainnet
-      if (!detectedNetwork) {
-        determineNetworkFromRpc()
-      }
       setRpcVerified(false)
       setConfigValid(false)
     } else {
@@ -103,14 +154,15 @@ function MerkleTreeCreator() {
     }
   }, [publicKey])
   
-  // Update network when custom RPC changes
+  // The cluster is only known again once the new RPCs are verified
   React.useEffect(() => {
+    setDetectedNetwork(null)
+    setGenesisHash(null)
     if (publicKey) {
-      determineNetworkFromRpc()
       setRpcVerified(false)
       setConfigValid(false)
     }
-  }, [customRpc])
+  }, [customRpc, fallbackRpcs])
 
   const verifyRpcConnection = async () => {
     if (!customRpc?.trim()) {
@@ -128,54 +180,49 @@ function MerkleTreeCreator() {
     try {
       console.log('Verifying RPC connection...')
       
-      // Determine network first
-      determineNetworkFromRpc()
-      
       const targetEndpoint = customRpc.trim()
+      const fallbackEndpoints = fallbackRpcs.split('\n').map((endpoint) => endpoint.trim()).filter(Boolean)
       console.log('Testing RPC endpoint:', targetEndpoint)
       
       // Create fresh connection to test the actual endpoint
       const testConnection = new Connection(targetEndpoint, 'confirmed')
       
-      // Use the simplest possible test - just get the current slot
+      // Get the current slot, and the genesis hash to tell which cluster this is
       const startTime = Date.now()
-      const currentSlot = await testConnection.getSlot()
+      const [currentSlot, clusterInfo] = await Promise.all([testConnection.getSlot(), detectCluster(testConnection)])
       const responseTime = Date.now() - startTime
       
       console.log('RPC responding, current slot:', currentSlot)
+      console.log('Cluster:', clusterInfo.cluster, 'genesis hash:', clusterInfo.genesisHash)
       console.log('Response time:', responseTime, 'ms')
-      
+
+      // A fallback on another cluster would silently switch networks mid-session
+      const fallbackClusters = await Promise.all(fallbackEndpoints.map((endpoint) => detectCluster(new Connection(endpoint, 'confirmed'))))
+      fallbackClusters.forEach((fallbackInfo, index) => {
+        if (fallbackInfo.genesisHash !== clusterInfo.genesisHash) {
+          throw new InvalidConfig(
+            `Fallback ${getEndpointHost(fallbackEndpoints[index])} is on ${getClusterLabel(fallbackInfo.cluster)}, not ${getClusterLabel(clusterInfo.cluster)}`,
+            'fallbackEndpoints'
+          )
+        }
+      })
+
+      // Rebuilds the shared connection for the verified endpoints
+      rpc.setEndpoints(targetEndpoint, fallbackEndpoints)
+      setDetectedNetwork(clusterInfo.cluster)
+      setGenesisHash(clusterInfo.genesisHash)
       setRpcVerified(true)
       toast({
         title: "RPC Connection Verified",
-        description: `${detectedNetwork?.toUpperCase() || 'Network'} RPC working - Slot: ${currentSlot.toLocaleString()}`,
+        description: `${getClusterLabel(clusterInfo.cluster)} RPC working - Slot: ${currentSlot.toLocaleString()}`,
       })
       
     } catch (error) {
       console.error('RPC verification failed:', error)
-      let errorMessage = "Could not connect to RPC endpoint"
-      
-      if (error instanceof Error) {
-        console.log('Full error:', error.message)
-        
-        if (error.message.includes('403') || error.message.includes('Forbidden')) {
-          errorMessage = "403 Forbidden - API key may be invalid or missing permissions"
-        } else if (error.message.includes('401') || error.message.includes('Unauthorized')) {
-          errorMessage = "401 Unauthorized - check your API key format"
-        } else if (error.message.includes('400')) {
-          errorMessage = "400 Bad Request - check RPC URL format"
-        } else if (error.message.includes('fetch') || error.message.includes('network')) {
-          errorMessage = "Network connection failed - check internet or URL"
-        } else if (error.message.includes('Invalid URL')) {
-          errorMessage = "Invalid RPC URL format"
-        } else {
-          errorMessage = `RPC Error: ${error.message.slice(0, 80)}...`
-        }
-      }
       
       toast({
         title: "RPC Verification Failed",
-        description: errorMessage,
+        description: describeError(error),
         variant: "destructive"
       })
       setRpcVerified(false)
@@ -264,7 +311,66 @@ function MerkleTreeCreator() {
     }
   }
 
-  // Remove cost estimation
+  // Tree creation only write-locks the payer and two new accounts, none of them contended, so
+  // price the fee levels from recent fees across the network
+  const refreshFeeEstimate = React.useCallback(async () => {
+    setIsEstimatingFees(true)
+    try {
+      setFeeEstimate(await estimatePriorityFees(connection))
+    } catch (error) {
+      console.error('Priority fee estimation failed:', error)
+      setFeeEstimate(null)
+    } finally {
+      setIsEstimatingFees(false)
+    }
+  }, [connection])
+
+  React.useEffect(() => {
+    if (rpcVerified) {
+      refreshFeeEstimate()
+    } else {
+      setFeeEstimate(null)
+    }
+  }, [rpcVerified, refreshFeeEstimate])
+
+  // Null while the custom price or compute unit limit is not a valid number
+  const { priorityFee, priorityFeeError } = React.useMemo(() => {
+    try {
+      return {
+        priorityFee: resolvePriorityFee(feeEstimate, priorityChoice, Number(customPriorityFee || 0), Number(computeUnitLimit)),
+        priorityFeeError: null
+      }
+    } catch (error) {
+      return { priorityFee: null, priorityFeeError: describeError(error) }
+    }
+  }, [feeEstimate, priorityChoice, customPriorityFee, computeUnitLimit])
+
+  // Recalculate the exact creation cost whenever the selection changes
+  React.useEffect(() => {
+    if (!rpcVerified) {
+      setCostBreakdown(null)
+      return
+    }
+
+    let cancelled = false
+    setCostError(null)
+
+    estimateTreeCost(connection, { maxDepth, maxBufferSize, canopyDepth }, priorityFee ?? undefined)
+      .then((breakdown) => {
+        if (!cancelled) setCostBreakdown(breakdown)
+      })
+      .catch((error) => {
+        console.error('Cost estimation failed:', error)
+        if (!cancelled) {
+          setCostBreakdown(null)
+          setCostError('Could not fetch rent from the RPC endpoint')
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [connection, rpcVerified, maxDepth, maxBufferSize, canopyDepth, priorityFee])
 
   const handleCreateTree = async () => {
     if (!publicKey || !signTransaction) {
@@ -285,7 +391,33 @@ function MerkleTreeCreator() {
       return
     }
 
+    if (!priorityFee) {
+      toast({
+        title: "Invalid priority fee",
+        description: priorityFeeError ?? "Check the priority fee settings",
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (clusterMismatch) {
+      toast({
+        title: "Cluster mismatch",
+        description: `Your RPC is on ${getClusterLabel(detectedNetwork ?? 'localnet')} but the wallet is set to ${getClusterLabel(walletCluster)}`,
+        variant: "destructive"
+      })
+      return
+    }
+
     setIsCreating(true)
+    setPreflightReport(null)
+    setSendProgress(null)
+    setExpiredCreate(null)
+
+    // Kept outside the try so an expired send can be re-signed for the same tree
+    const treeKeypair = Keypair.generate()
+    let built: CreateTreeTransaction | null = null
+    let params: MerkleTreeParams | null = null
 
     try {
       console.log('Creating Bubblegum Merkle tree with configuration:')
@@ -294,73 +426,91 @@ function MerkleTreeCreator() {
       console.log('- Max Buffer Size:', maxBufferSize)
       console.log('- Network:', detectedNetwork)
       
-      // Use the custom RPC connection if provided, otherwise use wallet connection
-      const targetEndpoint = customRpc && customRpc.trim() ? customRpc.trim() : connection.rpcEndpoint
-      const treeConnection = new Connection(targetEndpoint, 'confirmed')
-      
-      console.log('Using RPC for tree creation:', targetEndpoint)
+      console.log('Using RPC for tree creation:', getEndpointHost(rpc.activeEndpoint))
+
+      params = { canopyDepth, maxDepth, maxBufferSize }
+      built = await buildCreateTreeTransaction(connection, publicKey, treeKeypair, params, publicKey, priorityFee)
+
+      // Simulate before the wallet prompt so failures never reach the signer
+      const report = await preflightCreateTree(connection, built, params)
+      setPreflightReport(report)
+      if (!report.ok) {
+        toast({
+          title: "Preflight Failed",
+          description: report.error
+            ? formatTransactionError(report.error).slice(0, 100)
+            : `Your wallet needs ${formatSol(report.shortfallLamports)} more SOL`,
+          variant: "destructive"
+        })
+        return
+      }
       
       toast({
         title: "Creating Merkle Tree",
-        description: "Please approve the transaction in your wallet",
+        description: "Preflight passed - please approve the transaction in your wallet",
       })
 
-      const result = await createMerkleTree(
-        treeConnection,
-        publicKey,
-        signTransaction,
-        { canopyDepth, maxDepth, maxBufferSize }
-      )
-
-      // Store completed tree details
-      setCompletedTree({
-        treeAddress: result.treeAddress,
-        treeConfigAddress: result.treeConfigAddress || result.treeAddress,
-        signature: result.signature,
-        canopyDepth,
-        maxDepth,
-        maxBufferSize,
-        network: detectedNetwork || 'devnet',
-        timestamp: new Date().toLocaleString()
-      })
+      const result = await sendCreateTreeTransaction(connection, built, signTransaction, setSendProgress)
+      recordCreatedTree(result, params)
 
+    } catch (error) {
+      console.error('❌ Merkle tree creation failed:', error)
+      handleCreateError(error, built && params ? { built, treeKeypair, params } : null)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  // An expiry keeps the transaction around for a safe re-sign; anything else is just reported
+  const handleCreateError = (error: unknown, attempt: Omit<ExpiredCreate, 'signature'> | null) => {
+    if (error instanceof TransactionExpired && attempt) {
+      setExpiredCreate({ ...attempt, signature: error.signature })
       toast({
-        title: "Merkle Tree Created!",
-        description: `Tree created successfully for CNFTs. Address: ${result.treeAddress.slice(0, 8)}...`,
+        title: "Transaction Expired",
+        description: "It was not confirmed in time. Re-sign to retry for the same tree address",
+        variant: "destructive"
       })
+      return
+    }
+    toast({
+      title: "Tree Creation Failed",
+      description: describeError(error),
+      variant: "destructive"
+    })
+  }
 
-      console.log('✅ Merkle tree created successfully:')
-      console.log('- Tree Address:', result.treeAddress)
-      console.log('- Tree Config Address:', result.treeConfigAddress || result.treeAddress)
-      console.log('- Transaction Signature:', result.signature)
-      console.log('- Configuration Applied:', { canopyDepth, maxDepth, maxBufferSize })
-      console.log('- Network:', detectedNetwork)
+  // Checks whether the expired transaction landed late before asking the wallet to sign again
+  const handleResignExpired = async () => {
+    if (!expiredCreate || !signTransaction) return
 
-    } catch (error) {
-      console.error('❌ Merkle tree creation failed:', error)
-      
-      let errorMessage = "Failed to create Merkle tree"
-      if (error instanceof Error) {
-        if (error.message.includes('User rejected') || error.message.includes('rejected')) {
-          errorMessage = "Transaction was rejected in wallet"
-        } else if (error.message.includes('insufficient funds') || error.message.includes('balance')) {
-          errorMessage = "Insufficient SOL balance for tree creation"
-        } else if (error.message.includes('simulation failed')) {
-          errorMessage = "Transaction simulation failed - check account permissions and balance"
-        } else if (error.message.includes('blockhash') || error.message.includes('expired')) {
-          errorMessage = "Transaction expired - please try again"
-        } else if (error.message.includes('RPC') || error.message.includes('network')) {
-          errorMessage = "RPC connection error - check your endpoint"
-        } else if (error.message.includes('SPL Account Compression')) {
-          errorMessage = "Account Compression program error - check configuration"
-        } else {
-          errorMessage = error.message.slice(0, 100)
-        }
+    setIsCreating(true)
+    setSendProgress(null)
+    const { treeKeypair, params } = expiredCreate
+
+    try {
+      const recovery = await recoverExpiredCreateTree(connection, expiredCreate.built, treeKeypair, expiredCreate.signature)
+      setExpiredCreate(null)
+      if (recovery.landed) {
+        recordCreatedTree(recovery.result, params)
+        return
       }
-      
+
       toast({
-        title: "Tree Creation Failed",
-        description: errorMessage,
+        title: "Re-signing Transaction",
+        description: "Nothing was created yet - please approve the refreshed transaction in your wallet",
+      })
+      try {
+        const result = await sendCreateTreeTransaction(connection, recovery.built, signTransaction, setSendProgress)
+        recordCreatedTree(result, params)
+      } catch (error) {
+        console.error('❌ Merkle tree creation retry failed:', error)
+        handleCreateError(error, { built: recovery.built, treeKeypair, params })
+      }
+    } catch (error) {
+      console.error('❌ Expired tree creation check failed:', error)
+      toast({
+        title: "Could not check expired transaction",
+        description: describeError(error),
         variant: "destructive"
       })
     } finally {
@@ -368,6 +518,54 @@ function MerkleTreeCreator() {
     }
   }
 
+  const recordCreatedTree = (result: CreateMerkleTreeResult, params: MerkleTreeParams) => {
+    const { canopyDepth, maxDepth, maxBufferSize } = params
+    setPreflightReport(null)
+
+    // Store completed tree details
+    setCompletedTree({
+      treeAddress: result.treeAddress,
+      treeConfigAddress: result.treeConfigAddress || result.treeAddress,
+      signature: result.signature,
+      canopyDepth,
+      maxDepth,
+      maxBufferSize,
+      network: detectedNetwork ?? 'localnet',
+      timestamp: new Date().toLocaleString()
+    })
+
+    setTreeRegistry((registry) => upsertRegisteredTree(registry, {
+      address: result.treeAddress,
+      treeConfigAddress: result.treeConfigAddress || result.treeAddress,
+      network: detectedNetwork ?? 'localnet',
+      maxDepth,
+      maxBufferSize,
+      canopyDepth,
+      creationSignature: result.signature,
+      source: 'created',
+      label: '',
+      notes: '',
+      addedAt: new Date().toISOString()
+    }))
+
+    toast({
+      title: "Merkle Tree Created!",
+      description: `Tree created successfully for CNFTs. Address: ${result.treeAddress.slice(0, 8)}...`,
+    })
+
+    console.log('✅ Merkle tree created successfully:')
+    console.log('- Tree Address:', result.treeAddress)
+    console.log('- Tree Config Address:', result.treeConfigAddress || result.treeAddress)
+    console.log('- Transaction Signature:', result.signature)
+    console.log('- Configuration Applied:', { canopyDepth, maxDepth, maxBufferSize })
+    console.log('- Network:', detectedNetwork)
+
+    // Finalization is only tracked for display; the tree is usable once confirmed
+    waitForFinalization(connection, result.signature, (status) => {
+      setSendProgress((progress) => (progress?.signature === result.signature ? { ...progress, status } : progress))
+    }).catch((error) => console.warn('Finalization check failed:', error))
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-2xl mx-auto">
@@ -401,10 +599,24 @@ function MerkleTreeCreator() {
             {publicKey && (
               <div className="mt-4 p-3 bg-green-50 rounded-lg">
                 <p className="text-sm text-green-700">
-                  Wallet connected - Network: {detectedNetwork ? detectedNetwork.toUpperCase() : 'Please set RPC endpoint'}
+                  Wallet connected - Network: {getClusterLabel(walletCluster)}
                 </p>
               </div>
             )}
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Wallet Cluster
+              </label>
+              <select
+                value={walletNetwork}
+                onChange={(e) => onWalletNetworkChange(e.target.value as WalletAdapterNetwork)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={WalletAdapterNetwork.Mainnet}>Mainnet</option>
+                <option value={WalletAdapterNetwork.Devnet}>Devnet</option>
+                <option value={WalletAdapterNetwork.Testnet}>Testnet</option>
+              </select>
+            </div>
           </CardContent>
         </Card>
 
@@ -414,7 +626,7 @@ function MerkleTreeCreator() {
               <CardHeader>
                 <CardTitle>RPC Configuration</CardTitle>
                 <CardDescription>
-                  Enter your RPC endpoint - network will be auto-detected from URL
+                  Enter your RPC endpoint - the cluster is detected from its genesis hash
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -431,9 +643,21 @@ function MerkleTreeCreator() {
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      Network will be determined from your RPC URL. Include 'devnet' for devnet or 'mainnet' for mainnet.
+                      The cluster is identified by the RPC's genesis hash when you verify it.
                     </p>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Fallback RPC Endpoints (optional, one per line)
+                    </label>
+                    <textarea
+                      value={fallbackRpcs}
+                      onChange={(e) => setFallbackRpcs(e.target.value)}
+                      rows={2}
+                      placeholder="Used in order when the primary endpoint errors or rate limits"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
                   <Button
                     onClick={verifyRpcConnection}
                     disabled={isVerifying || !customRpc.trim()}
@@ -445,8 +669,31 @@ function MerkleTreeCreator() {
                   {rpcVerified && detectedNetwork && (
                     <div className="mt-3 p-3 bg-green-50 rounded-lg">
                       <p className="text-sm text-green-700">
-                        RPC connection verified for {detectedNetwork.toUpperCase()}
+                        RPC connection verified - Cluster: {getClusterLabel(detectedNetwork)}
+                        {genesisHash && <span className="text-xs text-green-600 font-mono"> (genesis {genesisHash.slice(0, 8)}...)</span>}
                       </p>
+                      {rpc.fallbackEndpoints.length > 0 && (
+                        <p className="text-xs text-green-600 mt-1">
+                          {rpc.fallbackEndpoints.length} fallback endpoint{rpc.fallbackEndpoints.length === 1 ? '' : 's'} ready
+                        </p>
+                      )}
+                      {rpc.activeEndpoint !== rpc.endpoint && (
+                        <p className="text-xs text-yellow-700 mt-1">
+                          Primary RPC is failing - requests are going to {getEndpointHost(rpc.activeEndpoint)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {clusterMismatch && (
+                    <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                      <p className="text-sm text-red-700">
+                        Your wallet is set to {getClusterLabel(walletCluster)} but this RPC is on {getClusterLabel(detectedNetwork ?? 'localnet')}. Tree creation is blocked until they match.
+                      </p>
+                      {mismatchWalletNetwork && (
+                        <Button variant="outline" size="sm" onClick={() => onWalletNetworkChange(mismatchWalletNetwork)}>
+                          Switch wallet to {getClusterLabel(detectedNetwork ?? 'localnet')}
+                        </Button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -455,6 +702,16 @@ function MerkleTreeCreator() {
 
             {rpcVerified && (
               <>
+                <RpcDiagnosticsPanel endpoint={rpc.endpoint} cluster={detectedNetwork} />
+                <CapacityPlanner
+                  connection={connection}
+                  onSelect={([depth, bufferSize], canopy) => {
+                    setSelectedDepthSizePair(`${depth},${bufferSize}`)
+                    setCanopyDepth(canopy)
+                    setConfigValid(null)
+                  }}
+                />
+
                 <Card className="mb-6">
                   <CardHeader>
                     <CardTitle>Tree Configuration</CardTitle>
@@ -505,6 +762,61 @@ function MerkleTreeCreator() {
                         </p>
                       </div>
 
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Priority Fee
+                        </label>
+                        <div className="grid grid-cols-4 gap-2">
+                          {(['low', 'medium', 'high', 'custom'] as PriorityFeeChoice[]).map((choice) => (
+                            <Button
+                              key={choice}
+                              onClick={() => setPriorityChoice(choice)}
+                              variant={priorityChoice === choice ? "default" : "outline"}
+                              size="sm"
+                              className="capitalize"
+                            >
+                              {choice}
+                            </Button>
+                          ))}
+                        </div>
+                        {priorityChoice === 'custom' ? (
+                          <input
+                            type="number"
+                            min={0}
+                            value={customPriorityFee}
+                            onChange={(e) => setCustomPriorityFee(e.target.value)}
+                            placeholder="Microlamports per compute unit"
+                            className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {isEstimatingFees
+                              ? 'Estimating from recent fees...'
+                              : feeEstimate
+                                ? `${feeEstimate.levels[priorityChoice].toLocaleString()} microlamports per compute unit, from network-wide fees over the last ${feeEstimate.slots} slots`
+                                : 'No recent fee data - this level adds no priority fee'}
+                            {!isEstimatingFees && (
+                              <button onClick={refreshFeeEstimate} className="ml-2 text-blue-600 hover:underline">
+                                Refresh
+                              </button>
+                            )}
+                          </p>
+                        )}
+                        <label className="block text-sm font-medium text-gray-700 mt-3 mb-2">
+                          Compute Unit Limit
+                        </label>
+                        <input
+                          type="number"
+                          min={1}
+                          value={computeUnitLimit}
+                          onChange={(e) => setComputeUnitLimit(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <p className={`text-xs mt-1 ${priorityFeeError ? 'text-red-600' : 'text-gray-500'}`}>
+                          {priorityFeeError ?? 'The priority fee is charged on this limit. Raise the fee when mainnet is congested and creations expire.'}
+                        </p>
+                      </div>
+
                       <div className="p-3 bg-blue-50 rounded-lg">
                         <h4 className="text-sm font-semibold text-blue-800 mb-1">Current Configuration:</h4>
                         <div className="text-xs text-blue-700 space-y-1">
@@ -513,6 +825,39 @@ function MerkleTreeCreator() {
                           <div>Proof Size: {maxDepth - canopyDepth} levels</div>
                         </div>
                       </div>
+
+                      <div className="p-3 bg-gray-50 rounded-lg border">
+                        <h4 className="text-sm font-semibold text-gray-800 mb-1">Estimated Cost:</h4>
+                        {costBreakdown ? (
+                          <div className="text-xs text-gray-700 space-y-1">
+                            <div className="flex justify-between">
+                              <span>Tree account rent ({costBreakdown.accountSize.toLocaleString()} bytes)</span>
+                              <span>{formatSol(costBreakdown.treeRentLamports)} SOL</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span>TreeConfig rent</span>
+                              <span>{formatSol(costBreakdown.treeConfigRentLamports)} SOL</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span>Transaction fee</span>
+                              <span>{formatSol(costBreakdown.transactionFeeLamports)} SOL</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span>
+                                Priority fee
+                                {priorityFee && ` (${priorityFee.microLamportsPerComputeUnit.toLocaleString()} microlamports x ${priorityFee.computeUnitLimit.toLocaleString()} CU)`}
+                              </span>
+                              <span>{formatSol(costBreakdown.priorityFeeLamports)} SOL</span>
+                            </div>
+                            <div className="flex justify-between font-semibold border-t pt-1">
+                              <span>Total</span>
+                              <span>{formatSol(costBreakdown.totalLamports)} SOL</span>
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-500">{costError || 'Calculating rent...'}</p>
+                        )}
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -547,19 +892,43 @@ function MerkleTreeCreator() {
                 {configValid === true && (
                   <Button 
                     onClick={handleCreateTree}
-                    disabled={!publicKey || isCreating || !rpcVerified || configValid !== true || !customRpc.trim()}
+                    disabled={!publicKey || isCreating || !rpcVerified || configValid !== true || !customRpc.trim() || clusterMismatch || expiredCreate !== null}
                     className="w-full h-12 text-lg bg-purple-600 hover:bg-purple-700"
                   >
                     {isCreating ? 'Creating Merkle Tree...' : 'Create Merkle Tree'}
                   </Button>
                 )}
 
+                {preflightReport && (
+                  <div className="mt-3">
+                    <PreflightReportView report={preflightReport} />
+                  </div>
+                )}
+
+                {sendProgress && (
+                  <div className="mt-3">
+                    <SendProgressView progress={sendProgress} />
+                  </div>
+                )}
+
+                {expiredCreate && (
+                  <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+                    <p className="text-sm text-yellow-800">
+                      The transaction for tree {expiredCreate.built.treeAddress.slice(0, 8)}... expired before it was confirmed.
+                      Re-signing first checks whether it landed late, then retries for the same tree address, so it can never create a second tree.
+                    </p>
+                    <Button onClick={handleResignExpired} disabled={isCreating} className="w-full" variant="outline">
+                      {isCreating ? 'Checking...' : 'Re-sign and Retry'}
+                    </Button>
+                  </div>
+                )}
+
                 {completedTree && (
                   <Card className="mt-6 border-green-200 bg-green-50">
                     <CardHeader>
                       <CardTitle className="text-green-800">Transaction Completed Successfully!</CardTitle>
                       <CardDescription className="text-green-700">
-                        Your Merkle tree has been created on {completedTree.network.toUpperCase()}
+                        Your Merkle tree has been created on {getClusterLabel(completedTree.network)}
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -612,16 +981,16 @@ function MerkleTreeCreator() {
                           <div><strong>Merkle Tree ID:</strong> <span className="font-mono text-xs break-all">{completedTree.treeAddress}</span></div>
                           <div><strong>Maximum CNFTs:</strong> {Math.pow(2, completedTree.maxDepth).toLocaleString()}</div>
                           <div><strong>Proof Size:</strong> {completedTree.maxDepth - completedTree.canopyDepth} levels (lower = cheaper mints)</div>
-                          <div><strong>Network:</strong> {completedTree.network.toUpperCase()}</div>
+                          <div><strong>Network:</strong> {getClusterLabel(completedTree.network)}</div>
                         </div>
                         <div className="mt-3 p-2 bg-white rounded text-xs">
-                          <strong>For developers:</strong> Use this tree address when calling mint instructions with the Bubblegum program to create compressed NFTs.
+                          <strong>For developers:</strong> Mint with the panel below, or use this tree address when calling mint instructions with the Bubblegum program to create compressed NFTs.
                         </div>
                       </div>
                       
                       <div className="mt-4 text-center">
                         <a
-                          href={`https://explorer.solana.com/address/${completedTree.treeAddress}${completedTree.network === 'devnet' ? '?cluster=devnet' : ''}`}
+                          href={getExplorerUrl('address', completedTree.treeAddress, completedTree.network)}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium transition-colors"
@@ -640,6 +1009,44 @@ function MerkleTreeCreator() {
                     </CardContent>
                   </Card>
                 )}
+
+                {completedTree && (
+                  <>
+                    <MintPanel
+                      connection={connection}
+                      treeAddress={completedTree.treeAddress}
+                      network={completedTree.network}
+                    />
+                    <BatchMintPanel
+                      connection={connection}
+                      treeAddress={completedTree.treeAddress}
+                    />
+                    <CnftManagePanel
+                      connection={connection}
+                      treeAddress={completedTree.treeAddress}
+                      network={completedTree.network}
+                    />
+                  </>
+                )}
+
+                <TreeRegistryPanel
+                  connection={connection}
+                  network={rpcVerified ? detectedNetwork : null}
+                  registry={treeRegistry}
+                  onChange={setTreeRegistry}
+                />
+                <TreeInspector
+                  connection={connection}
+                  initialAddress={completedTree?.treeAddress}
+                />
+                <TreeContents
+                  das={rpc.das}
+                  initialAddress={completedTree?.treeAddress}
+                />
+                <TreeHistory
+                  connection={connection}
+                  initialAddress={completedTree?.treeAddress}
+                />
               </>
             )}
           </>
@@ -651,17 +1058,17 @@ function MerkleTreeCreator() {
 }
 
 export default function App() {
-  // Use mainnet by default since app should support both networks
-  const network = WalletAdapterNetwork.Mainnet
-  const endpoint = clusterApiUrl(network)
+  // Cluster the wallet adapter connects to; mainnet by default, switchable from the wallet card
+  const [network, setNetwork] = useState<WalletAdapterNetwork>(WalletAdapterNetwork.Mainnet)
+  const endpoint = React.useMemo(() => clusterApiUrl(network), [network])
 
   return (
-    <ConnectionProvider endpoint={endpoint}>
+    <RpcProvider defaultEndpoint={endpoint}>
       <WalletProvider wallets={wallets} autoConnect>
         <WalletModalProvider>
-          <MerkleTreeCreator />
+          <MerkleTreeCreator walletNetwork={network} onWalletNetworkChange={setNetwork} />
         </WalletModalProvider>
       </WalletProvider>
-    </ConnectionProvider>
+    </RpcProvider>
   )
 }
@@ -0,0 +1,243 @@
+import React, { useState } from 'react'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { useWallet } from '@solana/wallet-adapter-react'
+import {
+  clearBatchMintJob,
+  createBatchMintJob,
+  getRemainingCapacity,
+  loadBatchMintJob,
+  parseManifest,
+  retryFailedRows,
+  runBatchMint,
+  saveBatchMintJob,
+  type BatchMintJob,
+  type ManifestError
+} from '../lib/batch-mint'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface BatchMintPanelProps {
+  connection: Connection
+  treeAddress: string
+}
+
+const STATUS_STYLES = {
+  pending: 'text-gray-500',
+  sent: 'text-blue-600',
+  confirmed: 'text-green-700',
+  failed: 'text-red-600'
+}
+
+export function BatchMintPanel({ connection, treeAddress }: BatchMintPanelProps) {
+  const { publicKey, signAllTransactions } = useWallet()
+  const [job, setJob] = useState<BatchMintJob | null>(() => loadBatchMintJob(treeAddress))
+  const [manifestErrors, setManifestErrors] = useState<ManifestError[]>([])
+  const [isRunning, setIsRunning] = useState(false)
+  const { toast } = useToast()
+
+  // A different tree has its own saved job
+  React.useEffect(() => {
+    setJob(loadBatchMintJob(treeAddress))
+    setManifestErrors([])
+  }, [treeAddress])
+
+  const handleManifestUpload = async (file: File) => {
+    try {
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+      const { rows, errors } = parseManifest(await file.text(), format)
+      setManifestErrors(errors)
+
+      if (errors.length > 0 || rows.length === 0) {
+        toast({
+          title: "Manifest Issues Found",
+          description: rows.length === 0 ? 'The manifest has no rows' : `${errors.length} problems - fix the manifest and upload it again`,
+          variant: "destructive"
+        })
+        return
+      }
+
+      const remaining = await getRemainingCapacity(connection, new PublicKey(treeAddress))
+      if (rows.length > remaining) {
+        toast({
+          title: "Not enough capacity",
+          description: `The manifest has ${rows.length.toLocaleString()} rows but the tree only has room for ${remaining.toLocaleString()}`,
+          variant: "destructive"
+        })
+        return
+      }
+
+      const newJob = createBatchMintJob(treeAddress, rows)
+      saveBatchMintJob(newJob)
+      setJob(newJob)
+      toast({
+        title: "Manifest Loaded",
+        description: `${rows.length.toLocaleString()} mints ready - ${(remaining - rows.length).toLocaleString()} leaves will remain`,
+      })
+    } catch (error) {
+      console.error('Manifest upload failed:', error)
+      toast({
+        title: "Could not read manifest",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Invalid manifest file",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const startBatch = async () => {
+    if (!job || !publicKey || !signAllTransactions) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect a wallet that supports signing multiple transactions",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsRunning(true)
+    try {
+      const finishedJob = await runBatchMint(connection, publicKey, signAllTransactions, job, setJob)
+      const failed = finishedJob.states.filter((state) => state.status === 'failed').length
+      toast({
+        title: failed > 0 ? "Batch finished with failures" : "Batch Mint Complete!",
+        description: failed > 0 ? `${failed} rows failed - retry them once the cause is fixed` : 'Every row was minted',
+        variant: failed > 0 ? "destructive" : "default"
+      })
+    } catch (error) {
+      console.error('Batch mint stopped:', error)
+      toast({
+        title: "Batch Mint Paused",
+        description: error instanceof Error ? error.message.slice(0, 100) : "The batch was interrupted - resume to continue",
+        variant: "destructive"
+      })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const counts = job
+    ? job.states.reduce(
+        (totals, state) => ({ ...totals, [state.status]: totals[state.status] + 1 }),
+        { pending: 0, sent: 0, confirmed: 0, failed: 0 }
+      )
+    : null
+  const isStarted = !!counts && counts.pending < (job?.rows.length ?? 0)
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Batch Mint</CardTitle>
+        <CardDescription>Airdrop from a CSV or JSON manifest - progress survives page reloads</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!job && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Manifest File</label>
+            <input
+              type="file"
+              accept=".csv,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleManifestUpload(file)
+                e.target.value = ''
+              }}
+              className="w-full text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              CSV columns: owner, name, symbol, uri, seller_fee_basis_points, creators (address:share;...), collection, delegate
+            </p>
+          </div>
+        )}
+
+        {manifestErrors.length > 0 && (
+          <div className="p-3 bg-red-50 rounded-lg border border-red-200 text-xs text-red-700 space-y-1">
+            {manifestErrors.slice(0, 5).map((error) => (
+              <div key={`${error.row}-${error.message}`}>Row {error.row}: {error.message}</div>
+            ))}
+            {manifestErrors.length > 5 && <div>+{manifestErrors.length - 5} more</div>}
+          </div>
+        )}
+
+        {job && counts && (
+          <>
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>{counts.confirmed.toLocaleString()} of {job.rows.length.toLocaleString()} minted</span>
+                <span>{counts.sent} in flight, {counts.failed} failed</span>
+              </div>
+              <div className="w-full h-2 bg-gray-200 rounded">
+                <div
+                  className="h-2 bg-green-600 rounded"
+                  style={{ width: `${(counts.confirmed / job.rows.length) * 100}%` }}
+                />
+              </div>
+            </div>
+
+            <div className="max-h-64 overflow-y-auto border rounded">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-600">
+                    <th className="p-2">#</th>
+                    <th>Name</th>
+                    <th>Owner</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {job.rows.map((row, index) => {
+                    const state = job.states[index]
+                    return (
+                      <tr key={index} className="border-t">
+                        <td className="p-2">{index + 1}</td>
+                        <td>{row.name}</td>
+                        <td className="font-mono">{row.leafOwner.slice(0, 8)}...</td>
+                        <td className={STATUS_STYLES[state.status]} title={state.error || state.assetId}>
+                          {state.status}
+                          {state.assetId && ` (${state.assetId.slice(0, 6)}...)`}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                onClick={startBatch}
+                disabled={isRunning || !publicKey || counts.pending + counts.sent === 0}
+                className="bg-purple-600 hover:bg-purple-700"
+              >
+                {isRunning ? 'Minting...' : isStarted ? 'Resume Batch' : 'Start Batch Mint'}
+              </Button>
+              {counts.failed > 0 ? (
+                <Button
+                  onClick={() => {
+                    const retried = retryFailedRows(job)
+                    saveBatchMintJob(retried)
+                    setJob(retried)
+                  }}
+                  disabled={isRunning}
+                  variant="outline"
+                >
+                  Retry Failed Rows
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => {
+                    clearBatchMintJob(treeAddress)
+                    setJob(null)
+                  }}
+                  disabled={isRunning || counts.sent > 0}
+                  variant="outline"
+                >
+                  {counts.pending === job.rows.length ? 'Discard Manifest' : 'Clear Finished Job'}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
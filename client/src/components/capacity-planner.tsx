@@ -0,0 +1,158 @@
+import React, { useState } from 'react'
+import { Connection } from '@solana/web3.js'
+import { planTree, type TreePlan } from '../lib/planner'
+import { formatSol } from '../lib/costs'
+import type { ValidDepthSizePair } from '../lib/merkle-tree'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface CapacityPlannerProps {
+  connection: Connection
+  onSelect: (maxDepthSizePair: ValidDepthSizePair, canopyDepth: number) => void
+}
+
+export function CapacityPlanner({ connection, onSelect }: CapacityPlannerProps) {
+  const [expectedMints, setExpectedMints] = useState('10000')
+  const [concurrentMints, setConcurrentMints] = useState('8')
+  const [maxProofBytes, setMaxProofBytes] = useState('320')
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [plan, setPlan] = useState<TreePlan | null>(null)
+  const { toast } = useToast()
+
+  const runPlanner = async () => {
+    const input = {
+      expectedMints: Number(expectedMints),
+      concurrentMintsPerSlot: Number(concurrentMints),
+      maxProofBytes: Number(maxProofBytes)
+    }
+
+    if (Object.values(input).some((value) => !Number.isInteger(value) || value < 1)) {
+      toast({
+        title: "Invalid planner input",
+        description: "All targets must be whole numbers greater than zero",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsPlanning(true)
+    try {
+      const result = await planTree(connection, input)
+      setPlan(result)
+      if (!result.recommended) {
+        toast({
+          title: "No configuration fits",
+          description: "Relax the proof budget or the concurrency target",
+          variant: "destructive"
+        })
+      }
+    } catch (error) {
+      console.error('Capacity planning failed:', error)
+      toast({
+        title: "Planning Failed",
+        description: "Could not fetch rent from the RPC endpoint",
+        variant: "destructive"
+      })
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Capacity Planner</CardTitle>
+        <CardDescription>Get the cheapest tree that fits your mint targets</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Expected cNFTs</label>
+            <input type="number" min={1} value={expectedMints} onChange={(e) => setExpectedMints(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Mints per slot</label>
+            <input type="number" min={1} value={concurrentMints} onChange={(e) => setConcurrentMints(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Max proof bytes</label>
+            <input type="number" min={1} value={maxProofBytes} onChange={(e) => setMaxProofBytes(e.target.value)} className={inputClassName} />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Max proof bytes is what a marketplace transaction can spend on proof accounts (32 bytes per node).
+        </p>
+        <Button onClick={runPlanner} disabled={isPlanning} className="w-full" variant="outline">
+          {isPlanning ? 'Planning...' : 'Recommend Configuration'}
+        </Button>
+
+        {plan?.recommended && (
+          <div className="p-3 bg-purple-50 rounded-lg border border-purple-200">
+            <h4 className="text-sm font-semibold text-purple-800 mb-1">
+              Recommended: Depth {plan.recommended.maxDepthSizePair[0]}, Buffer {plan.recommended.maxDepthSizePair[1]}, Canopy {plan.recommended.canopyDepth}
+            </h4>
+            <ul className="text-xs text-purple-700 space-y-1 list-disc pl-4">
+              {plan.recommended.tradeoffs.map((tradeoff) => (
+                <li key={tradeoff}>{tradeoff}</li>
+              ))}
+            </ul>
+            <Button
+              onClick={() => onSelect(plan.recommended!.maxDepthSizePair, plan.recommended!.canopyDepth)}
+              className="w-full mt-3"
+            >
+              Use Recommended Configuration
+            </Button>
+          </div>
+        )}
+
+        {plan && plan.candidates.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2">#</th>
+                  <th>Depth</th>
+                  <th>Buffer</th>
+                  <th>Canopy</th>
+                  <th>Capacity</th>
+                  <th>Proof</th>
+                  <th className="text-right">Cost (SOL)</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.candidates.map((candidate, rank) => (
+                  <tr key={candidate.maxDepthSizePair.join(',')} className="border-b">
+                    <td className="py-2">{rank + 1}</td>
+                    <td>{candidate.maxDepthSizePair[0]}</td>
+                    <td>{candidate.maxDepthSizePair[1]}</td>
+                    <td>{candidate.canopyDepth}</td>
+                    <td>{candidate.capacity.toLocaleString()}</td>
+                    <td>{candidate.proofBytes} B</td>
+                    <td className="text-right">{formatSol(candidate.cost.totalLamports)}</td>
+                    <td className="text-right">
+                      <button
+                        onClick={() => onSelect(candidate.maxDepthSizePair, candidate.canopyDepth)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Use
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {plan.rejected.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                {plan.rejected.length} other configurations do not meet these targets.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,226 @@
+import React, { useState } from 'react'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { getExplorerUrl } from '../lib/cluster'
+import { createDasClient } from '../lib/das'
+import { manageCompressedNft, type LeafAction } from '../lib/manage'
+import { createDasProofProvider, createLocalProofProvider } from '../lib/proof-provider'
+import { verifyAssetProof, type ProofVerdict, type ProofVerification } from '../lib/proof-verifier'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface CnftManagePanelProps {
+  connection: Connection
+  treeAddress: string
+  network: string
+}
+
+type ActionType = LeafAction['type']
+type ProofSource = 'das' | 'local'
+
+const ACTION_LABELS: Record<ActionType, string> = {
+  transfer: 'Transfer',
+  delegate: 'Delegate',
+  burn: 'Burn'
+}
+
+const VERDICT_STYLES: Record<ProofVerdict, { label: string; className: string }> = {
+  fresh: { label: 'Fresh', className: 'bg-green-50 border-green-200 text-green-800' },
+  'in-changelog-window': { label: 'In changelog window', className: 'bg-blue-50 border-blue-200 text-blue-800' },
+  stale: { label: 'Stale', className: 'bg-yellow-50 border-yellow-200 text-yellow-800' },
+  corrupt: { label: 'Corrupt', className: 'bg-red-50 border-red-200 text-red-800' }
+}
+
+export function CnftManagePanel({ connection, treeAddress, network }: CnftManagePanelProps) {
+  const { publicKey, signTransaction } = useWallet()
+  const [assetId, setAssetId] = useState('')
+  const [actionType, setActionType] = useState<ActionType>('transfer')
+  const [target, setTarget] = useState('')
+  const [proofSource, setProofSource] = useState<ProofSource>('das')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [lastSignature, setLastSignature] = useState<string | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [verification, setVerification] = useState<ProofVerification | null>(null)
+  const { toast } = useToast()
+
+  // Check the indexer's proof against the on-chain root and canopy without sending anything
+  const handleVerify = async () => {
+    let asset: PublicKey
+    try {
+      asset = new PublicKey(assetId.trim())
+    } catch (error) {
+      toast({
+        title: "Invalid address",
+        description: "Check the asset ID",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsVerifying(true)
+    setVerification(null)
+
+    try {
+      const assetProof = await createDasClient(connection.rpcEndpoint).getAssetProof(asset.toString())
+      setVerification(await verifyAssetProof(connection, assetProof))
+    } catch (error) {
+      toast({
+        title: "Proof Verification Failed",
+        description: error instanceof Error ? error.message.slice(0, 120) : "Could not fetch the asset proof",
+        variant: "destructive"
+      })
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!publicKey || !signTransaction) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive"
+      })
+      return
+    }
+
+    let asset: PublicKey
+    let action: LeafAction
+    try {
+      asset = new PublicKey(assetId.trim())
+      action = actionType === 'transfer'
+        ? { type: 'transfer', newLeafOwner: new PublicKey(target.trim()) }
+        : actionType === 'delegate'
+          ? { type: 'delegate', newLeafDelegate: new PublicKey(target.trim()) }
+          : { type: 'burn' }
+    } catch (error) {
+      toast({
+        title: "Invalid address",
+        description: "Check the asset ID and recipient addresses",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    setLastSignature(null)
+
+    try {
+      toast({
+        title: proofSource === 'das' ? "Fetching Asset Proof" : "Rebuilding Tree Locally",
+        description: proofSource === 'das'
+          ? "Requesting the proof from your RPC's DAS API"
+          : "Replaying the tree's history - this can take a while for busy trees",
+      })
+
+      const proofProvider = proofSource === 'das'
+        ? createDasProofProvider(connection.rpcEndpoint)
+        : createLocalProofProvider(connection, new PublicKey(treeAddress))
+
+      const { signature } = await manageCompressedNft(connection, publicKey, signTransaction, proofProvider, asset, action)
+
+      setLastSignature(signature)
+      toast({
+        title: `${ACTION_LABELS[actionType]} Confirmed!`,
+        description: `Signature: ${signature.slice(0, 8)}...`,
+      })
+    } catch (error) {
+      toast({
+        title: `${ACTION_LABELS[actionType]} Failed`,
+        description: error instanceof Error ? error.message.slice(0, 120) : "Failed to update compressed NFT",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Manage Compressed NFTs</CardTitle>
+        <CardDescription>Transfer, delegate or burn an asset you own or are delegated</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Asset ID</label>
+          <input type="text" value={assetId} onChange={(e) => setAssetId(e.target.value)} className={`${inputClassName} font-mono text-sm`} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Action</label>
+            <select value={actionType} onChange={(e) => setActionType(e.target.value as ActionType)} className={inputClassName}>
+              <option value="transfer">Transfer</option>
+              <option value="delegate">Delegate</option>
+              <option value="burn">Burn</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Proof Source</label>
+            <select value={proofSource} onChange={(e) => setProofSource(e.target.value as ProofSource)} className={inputClassName}>
+              <option value="das">DAS API (custom RPC)</option>
+              <option value="local">Local tree replay</option>
+            </select>
+          </div>
+        </div>
+        {actionType !== 'burn' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {actionType === 'transfer' ? 'New Owner' : 'New Delegate'}
+            </label>
+            <input type="text" value={target} onChange={(e) => setTarget(e.target.value)} className={`${inputClassName} font-mono text-sm`} />
+          </div>
+        )}
+        {actionType === 'burn' && (
+          <p className="text-xs text-red-600">Burning permanently removes the asset from the tree.</p>
+        )}
+        {proofSource === 'local' && (
+          <p className="text-xs text-gray-500">
+            Local replay only works for assets in {treeAddress.slice(0, 8)}... and needs an RPC that serves its full transaction history.
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          <Button
+            onClick={handleVerify}
+            disabled={isVerifying || !assetId.trim()}
+            variant="outline"
+          >
+            {isVerifying ? 'Verifying...' : 'Verify Proof'}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !publicKey || !assetId.trim()}
+            className={`col-span-2 ${actionType === 'burn' ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'}`}
+          >
+            {isSubmitting ? 'Submitting...' : `${ACTION_LABELS[actionType]} Compressed NFT`}
+          </Button>
+        </div>
+
+        {verification && (
+          <div className={`p-3 rounded-lg border text-sm ${VERDICT_STYLES[verification.verdict].className}`}>
+            <strong>DAS proof: {VERDICT_STYLES[verification.verdict].label}</strong>
+            <div className="text-xs mt-1">{verification.message}</div>
+            {verification.canopyMatches !== null && (
+              <div className="text-xs mt-1">Canopy nodes {verification.canopyMatches ? 'match' : 'do not match'} the on-chain canopy</div>
+            )}
+          </div>
+        )}
+
+        {lastSignature && (
+          <a
+            href={getExplorerUrl('tx', lastSignature, network)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-xs text-blue-600 hover:underline"
+          >
+            View transaction
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
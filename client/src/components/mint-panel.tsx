@@ -0,0 +1,199 @@
+import React, { useState } from 'react'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { getExplorerUrl } from '../lib/cluster'
+import { mintCompressedNft, validateMintMetadata, type MintMetadataInput } from '../lib/mint'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface MintPanelProps {
+  connection: Connection
+  treeAddress: string
+  network: string
+}
+
+// One creator per line as "address,share"
+function parseCreators(text: string): { address: PublicKey; share: number }[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [address, share] = line.split(',').map((part) => part.trim())
+      return { address: new PublicKey(address), share: Number(share) }
+    })
+}
+
+export function MintPanel({ connection, treeAddress, network }: MintPanelProps) {
+  const { publicKey, signTransaction } = useWallet()
+  const [name, setName] = useState('')
+  const [symbol, setSymbol] = useState('')
+  const [uri, setUri] = useState('')
+  const [sellerFeeBasisPoints, setSellerFeeBasisPoints] = useState('500')
+  const [creators, setCreators] = useState(publicKey ? `${publicKey.toString()},100` : '')
+  const [collectionMint, setCollectionMint] = useState('')
+  const [leafOwner, setLeafOwner] = useState(publicKey?.toString() || '')
+  const [leafDelegate, setLeafDelegate] = useState('')
+  const [isMinting, setIsMinting] = useState(false)
+  const [mintedAssets, setMintedAssets] = useState<{ assetId: string; signature: string }[]>([])
+  const { toast } = useToast()
+
+  const handleMint = async () => {
+    if (!publicKey || !signTransaction) {
+      toast({
+        title: "Wallet not connected",
+        description: "Please connect your wallet first",
+        variant: "destructive"
+      })
+      return
+    }
+
+    let metadata: MintMetadataInput
+    let owner: PublicKey
+    let delegate: PublicKey | undefined
+    try {
+      metadata = {
+        name,
+        symbol,
+        uri,
+        sellerFeeBasisPoints: Number(sellerFeeBasisPoints),
+        creators: parseCreators(creators),
+        collectionMint: collectionMint.trim() ? new PublicKey(collectionMint.trim()) : undefined
+      }
+      owner = new PublicKey(leafOwner.trim())
+      delegate = leafDelegate.trim() ? new PublicKey(leafDelegate.trim()) : undefined
+    } catch (error) {
+      toast({
+        title: "Invalid address",
+        description: "Check the creator, collection, owner and delegate addresses",
+        variant: "destructive"
+      })
+      return
+    }
+
+    const validationErrors = validateMintMetadata(metadata)
+    if (validationErrors.length > 0) {
+      toast({
+        title: "Metadata Issues Found",
+        description: validationErrors[0] + (validationErrors.length > 1 ? ` (+${validationErrors.length - 1} more)` : ''),
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsMinting(true)
+
+    try {
+      toast({
+        title: "Minting Compressed NFT",
+        description: "Please approve the transaction in your wallet",
+      })
+
+      const result = await mintCompressedNft(connection, publicKey, signTransaction, {
+        merkleTree: new PublicKey(treeAddress),
+        metadata,
+        leafOwner: owner,
+        leafDelegate: delegate
+      })
+
+      setMintedAssets((previous) => [
+        ...result.assetIds.map((assetId) => ({ assetId, signature: result.signature })),
+        ...previous
+      ])
+      toast({
+        title: "Compressed NFT Minted!",
+        description: result.assetIds.length > 0
+          ? `Asset ID: ${result.assetIds[0].slice(0, 8)}...`
+          : 'Minted - asset ID not found in the transaction logs',
+      })
+    } catch (error) {
+      toast({
+        title: "Mint Failed",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Failed to mint compressed NFT",
+        variant: "destructive"
+      })
+    } finally {
+      setIsMinting(false)
+    }
+  }
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Mint Compressed NFT</CardTitle>
+        <CardDescription className="break-all">Mint into tree {treeAddress}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Symbol</label>
+            <input type="text" value={symbol} onChange={(e) => setSymbol(e.target.value)} className={inputClassName} />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Metadata URI</label>
+          <input type="text" value={uri} onChange={(e) => setUri(e.target.value)} placeholder="https://example.com/metadata.json" className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Seller Fee (basis points)</label>
+          <input type="number" min={0} max={10000} value={sellerFeeBasisPoints} onChange={(e) => setSellerFeeBasisPoints(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Creators</label>
+          <textarea
+            value={creators}
+            onChange={(e) => setCreators(e.target.value)}
+            rows={3}
+            placeholder="address,share (one per line)"
+            className={`${inputClassName} font-mono text-xs`}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            One "address,share" per line. Shares must add up to 100; your wallet is verified automatically.
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Collection Mint (optional)</label>
+          <input type="text" value={collectionMint} onChange={(e) => setCollectionMint(e.target.value)} placeholder="Verified collection - your wallet must be its update authority" className={`${inputClassName} font-mono text-sm`} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Leaf Owner</label>
+          <input type="text" value={leafOwner} onChange={(e) => setLeafOwner(e.target.value)} className={`${inputClassName} font-mono text-sm`} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Leaf Delegate (optional)</label>
+          <input type="text" value={leafDelegate} onChange={(e) => setLeafDelegate(e.target.value)} placeholder="Defaults to the leaf owner" className={`${inputClassName} font-mono text-sm`} />
+        </div>
+
+        <Button
+          onClick={handleMint}
+          disabled={isMinting || !publicKey}
+          className="w-full bg-purple-600 hover:bg-purple-700"
+        >
+          {isMinting ? 'Minting...' : 'Mint Compressed NFT'}
+        </Button>
+
+        {mintedAssets.map(({ assetId, signature }) => (
+          <div key={assetId} className="p-3 bg-green-50 rounded border border-green-200 text-sm">
+            <strong className="text-green-800">Asset ID:</strong>
+            <div className="font-mono text-xs text-green-700 break-all mt-1">{assetId}</div>
+            <a
+              href={getExplorerUrl('tx', signature, network)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-600 hover:underline"
+            >
+              View transaction
+            </a>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
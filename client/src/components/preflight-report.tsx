@@ -0,0 +1,55 @@
+import React from 'react'
+import { formatSol } from '../lib/costs'
+import type { PreflightReport } from '../lib/preflight'
+import { formatTransactionError } from '../lib/program-errors'
+
+interface PreflightReportViewProps {
+  report: PreflightReport
+}
+
+export function PreflightReportView({ report }: PreflightReportViewProps) {
+  const rows: [string, string][] = [
+    ['Compute units', report.unitsConsumed !== null ? report.unitsConsumed.toLocaleString() : 'Unknown'],
+    ['Network fee', `${formatSol(report.feeLamports)} SOL`],
+    ['Rent deposits', `${formatSol(report.rentLamports)} SOL`],
+    ['Total cost', `${formatSol(report.totalLamports)} SOL`],
+    ['Wallet balance', `${formatSol(report.balanceLamports)} SOL`]
+  ]
+
+  return (
+    <div className={`p-3 border rounded-lg text-sm space-y-2 ${report.ok ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+      <div className={`font-medium ${report.ok ? 'text-green-800' : 'text-red-800'}`}>
+        {report.ok ? 'Preflight passed' : 'Preflight failed - nothing was sent to your wallet'}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-700">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <span>{label}</span>
+            <span className="text-right font-mono">{value}</span>
+          </React.Fragment>
+        ))}
+        {report.shortfallLamports > 0 && (
+          <>
+            <span className="text-red-700 font-medium">Shortfall</span>
+            <span className="text-right font-mono text-red-700 font-medium">{formatSol(report.shortfallLamports)} SOL</span>
+          </>
+        )}
+      </div>
+
+      {report.error && (
+        <div className="text-red-700">
+          {formatTransactionError(report.error)}
+          {report.error.code !== null && <span className="text-xs text-red-500"> ({report.error.name}, code {report.error.code})</span>}
+        </div>
+      )}
+
+      {!report.ok && report.logs.length > 0 && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-gray-600">Program logs ({report.logs.length})</summary>
+          <pre className="mt-2 p-2 bg-white border rounded overflow-x-auto whitespace-pre-wrap">{report.logs.join('\n')}</pre>
+        </details>
+      )}
+    </div>
+  )
+}
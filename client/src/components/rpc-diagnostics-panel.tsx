@@ -0,0 +1,154 @@
+import React, { useState } from 'react'
+import {
+  runRpcDiagnostics,
+  DEFAULT_LATENCY_SAMPLES,
+  type CheckStatus,
+  type FeatureStatus,
+  type RpcDiagnosticsReport
+} from '../lib/rpc-diagnostics'
+import { getPublicEndpoint } from '../lib/cluster'
+import { getEndpointHost } from '../lib/rpc-failover'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface RpcDiagnosticsPanelProps {
+  // Endpoint under test, the verified primary rather than whichever fallback is active
+  endpoint: string
+  // Detected cluster, used to pick the public endpoint as the slot lag reference
+  cluster: string | null
+}
+
+const CHECK_STYLES: Record<CheckStatus, string> = {
+  pass: 'text-green-700',
+  warn: 'text-yellow-700',
+  fail: 'text-red-700'
+}
+
+const FEATURE_STYLES: Record<FeatureStatus, string> = {
+  works: 'bg-green-100 text-green-800',
+  degraded: 'bg-yellow-100 text-yellow-800',
+  unavailable: 'bg-red-100 text-red-800'
+}
+
+const scoreStyle = (score: number) =>
+  score >= 80 ? 'bg-green-50 border-green-200 text-green-800'
+    : score >= 50 ? 'bg-yellow-50 border-yellow-200 text-yellow-800'
+      : 'bg-red-50 border-red-200 text-red-800'
+
+export function RpcDiagnosticsPanel({ endpoint, cluster }: RpcDiagnosticsPanelProps) {
+  const [samples, setSamples] = useState(String(DEFAULT_LATENCY_SAMPLES))
+  const [referenceEndpoint, setReferenceEndpoint] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+  const [report, setReport] = useState<RpcDiagnosticsReport | null>(null)
+  const { toast } = useToast()
+
+  const defaultReference = cluster ? getPublicEndpoint(cluster) : null
+
+  // A report for another endpoint would be misleading
+  React.useEffect(() => {
+    setReport(null)
+  }, [endpoint])
+
+  const runDiagnostics = async () => {
+    const sampleCount = Number(samples)
+    if (!Number.isInteger(sampleCount) || sampleCount < 1 || sampleCount > 100) {
+      toast({
+        title: "Invalid sample count",
+        description: "Latency samples must be a whole number from 1 to 100",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsRunning(true)
+    try {
+      const result = await runRpcDiagnostics(endpoint, {
+        samples: sampleCount,
+        referenceEndpoint: referenceEndpoint.trim() || defaultReference
+      })
+      setReport(result)
+    } catch (error) {
+      console.error('RPC diagnostics failed:', error)
+      toast({
+        title: "Diagnostics Failed",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Could not run the RPC checks",
+        variant: "destructive"
+      })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>RPC Diagnostics</CardTitle>
+        <CardDescription>Check what {getEndpointHost(endpoint)} supports before relying on it</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Latency samples</label>
+            <input type="number" min={1} max={100} value={samples} onChange={(e) => setSamples(e.target.value)} className={inputClassName} />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reference endpoint</label>
+            <input
+              type="text"
+              value={referenceEndpoint}
+              onChange={(e) => setReferenceEndpoint(e.target.value)}
+              placeholder={defaultReference ?? 'Another RPC on the same cluster'}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Slot lag is measured against the reference endpoint, the cluster's public RPC unless you set one.
+        </p>
+        <Button onClick={runDiagnostics} disabled={isRunning} className="w-full" variant="outline">
+          {isRunning ? 'Running Diagnostics...' : 'Run Diagnostics'}
+        </Button>
+
+        {report && (
+          <div className="space-y-3">
+            <div className={`p-3 border rounded-lg ${scoreStyle(report.score)}`}>
+              <div className="text-lg font-semibold">Score: {report.score}/100</div>
+              {report.solanaVersion && <div className="text-xs">solana-core {report.solanaVersion}</div>}
+            </div>
+
+            <table className="w-full text-xs">
+              <tbody>
+                {report.checks.map((check) => (
+                  <tr key={check.id} className="border-b">
+                    <td className="py-2 font-medium text-gray-700">{check.label}</td>
+                    <td className={`uppercase font-semibold ${CHECK_STYLES[check.status]}`}>{check.status}</td>
+                    <td className="text-gray-600">{check.detail}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">App features on this endpoint</h4>
+              <ul className="space-y-1">
+                {report.features.map((feature) => (
+                  <li key={feature.feature} className="text-xs flex items-start gap-2">
+                    <span className={`px-2 py-0.5 rounded font-medium whitespace-nowrap ${FEATURE_STYLES[feature.status]}`}>
+                      {feature.status}
+                    </span>
+                    <span>
+                      <span className="font-medium">{feature.feature}</span> - {feature.reason}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,36 @@
+import React from 'react'
+import type { SendProgress, SendStatus } from '../lib/transaction-sender'
+
+interface SendProgressViewProps {
+  progress: SendProgress
+}
+
+const STEPS: SendStatus[] = ['sent', 'processed', 'confirmed', 'finalized']
+
+export function SendProgressView({ progress }: SendProgressViewProps) {
+  const reached = STEPS.indexOf(progress.status)
+
+  return (
+    <div className="p-3 border rounded-lg text-sm space-y-2 bg-gray-50">
+      <div className="grid grid-cols-4 gap-2">
+        {STEPS.map((step, index) => (
+          <div
+            key={step}
+            className={`text-center text-xs font-medium capitalize rounded py-1 ${
+              index <= reached ? 'bg-green-100 text-green-800' : 'bg-white border text-gray-400'
+            }`}
+          >
+            {step}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>Sent {progress.sends} time{progress.sends === 1 ? '' : 's'}</span>
+        {progress.blocksRemaining !== null && reached < STEPS.indexOf('confirmed') && (
+          <span>Blockhash valid for {progress.blocksRemaining} more blocks</span>
+        )}
+      </div>
+      <div className="text-xs text-gray-500 font-mono break-all">{progress.signature}</div>
+    </div>
+  )
+}
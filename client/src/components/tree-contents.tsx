@@ -0,0 +1,143 @@
+import React, { useState } from 'react'
+import { PublicKey } from '@solana/web3.js'
+import { getNextPage, type DasAsset, type DasClient, type DasPageOptions } from '../lib/das'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface TreeContentsProps {
+  // Client for the DAS-capable RPC, usually the custom RPC with its fallbacks
+  das: DasClient
+  initialAddress?: string
+}
+
+const PAGE_LIMIT = 100
+
+export function TreeContents({ das, initialAddress = '' }: TreeContentsProps) {
+  const [address, setAddress] = useState(initialAddress)
+  const [assets, setAssets] = useState<DasAsset[]>([])
+  const [total, setTotal] = useState<number | null>(null)
+  const [nextPage, setNextPage] = useState<DasPageOptions | null>(null)
+  const [loadedTree, setLoadedTree] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  // Prefill with a newly created tree
+  React.useEffect(() => {
+    if (initialAddress) {
+      setAddress(initialAddress)
+    }
+  }, [initialAddress])
+
+  // Results from another endpoint may not match
+  React.useEffect(() => {
+    setAssets([])
+    setTotal(null)
+    setNextPage(null)
+    setLoadedTree(null)
+  }, [das])
+
+  const loadPage = async (tree: string, options: DasPageOptions, append: boolean) => {
+    setIsLoading(true)
+    try {
+      const list = await das.getAssetsByTree(tree, options)
+      setAssets((previous) => (append ? [...previous, ...list.items] : list.items))
+      setTotal(list.total)
+      setNextPage(getNextPage(list, options))
+      setLoadedTree(tree)
+    } catch (error) {
+      console.error('Loading tree contents failed:', error)
+      toast({
+        title: "Could not load tree contents",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Your RPC may not support the DAS API",
+        variant: "destructive"
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const loadTree = () => {
+    let tree: string
+    try {
+      tree = new PublicKey(address.trim()).toString()
+    } catch (error) {
+      toast({
+        title: "Invalid tree address",
+        description: "Please paste a valid base58 account address",
+        variant: "destructive"
+      })
+      return
+    }
+    loadPage(tree, { limit: PAGE_LIMIT, page: 1 }, false)
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Tree Contents</CardTitle>
+        <CardDescription>Browse every asset minted into a tree through your RPC's DAS API</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="Merkle tree address"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          />
+          <Button onClick={loadTree} disabled={isLoading || !address.trim()} variant="outline">
+            {isLoading && assets.length === 0 ? 'Loading...' : 'Load'}
+          </Button>
+        </div>
+
+        {loadedTree && total !== null && (
+          <div className="text-xs text-gray-600">
+            Showing {assets.length.toLocaleString()} of {total.toLocaleString()} assets
+          </div>
+        )}
+
+        {assets.length > 0 && (
+          <div className="max-h-80 overflow-y-auto border rounded">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-600">
+                  <th className="p-2">Leaf</th>
+                  <th>Name</th>
+                  <th>Asset ID</th>
+                  <th>Owner</th>
+                </tr>
+              </thead>
+              <tbody>
+                {assets.map((asset) => (
+                  <tr key={asset.id} className={`border-t ${asset.burnt ? 'text-gray-400 line-through' : ''}`}>
+                    <td className="p-2">{asset.compression?.leaf_id}</td>
+                    <td>{asset.content?.metadata?.name || '-'}</td>
+                    <td className="font-mono" title={asset.id}>{asset.id.slice(0, 8)}...</td>
+                    <td className="font-mono" title={asset.ownership.owner}>{asset.ownership.owner.slice(0, 8)}...</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {loadedTree && total === 0 && (
+          <p className="text-sm text-gray-500">No assets have been minted into this tree yet.</p>
+        )}
+
+        {loadedTree && nextPage && (
+          <Button
+            onClick={() => loadPage(loadedTree, nextPage, true)}
+            disabled={isLoading}
+            variant="outline"
+            className="w-full"
+          >
+            {isLoading ? 'Loading...' : 'Load More'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
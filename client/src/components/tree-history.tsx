@@ -0,0 +1,148 @@
+import React, { useState } from 'react'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { createIndexedDbHistoryCache } from '../lib/history-cache'
+import { getTreeHistoryPage, treeHistoryToCsv, type TreeHistoryEntry } from '../lib/tree-history'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface TreeHistoryProps {
+  connection: Connection
+  initialAddress?: string
+}
+
+const historyCache = createIndexedDbHistoryCache()
+
+function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function TreeHistory({ connection, initialAddress = '' }: TreeHistoryProps) {
+  const [address, setAddress] = useState(initialAddress)
+  const [entries, setEntries] = useState<TreeHistoryEntry[]>([])
+  const [loadedTree, setLoadedTree] = useState<string | null>(null)
+  const [nextBefore, setNextBefore] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  // Prefill with a newly created tree
+  React.useEffect(() => {
+    if (initialAddress) {
+      setAddress(initialAddress)
+    }
+  }, [initialAddress])
+
+  const loadPage = async (tree: string, before: string | undefined) => {
+    setIsLoading(true)
+    try {
+      const page = await getTreeHistoryPage(connection, new PublicKey(tree), { before }, historyCache)
+      setEntries((previous) => (before ? [...previous, ...page.entries] : page.entries))
+      setNextBefore(page.nextBefore)
+      setLoadedTree(tree)
+    } catch (error) {
+      toast({
+        title: "Could not load history",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Failed to fetch tree transactions",
+        variant: "destructive"
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const loadHistory = () => {
+    let tree: string
+    try {
+      tree = new PublicKey(address.trim()).toString()
+    } catch (error) {
+      toast({
+        title: "Invalid tree address",
+        description: "Please paste a valid base58 account address",
+        variant: "destructive"
+      })
+      return
+    }
+    loadPage(tree, undefined)
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Tree History</CardTitle>
+        <CardDescription>Finalized activity for a tree, decoded from its transactions</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="Merkle tree address"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          />
+          <Button onClick={loadHistory} disabled={isLoading || !address.trim()} variant="outline">
+            {isLoading && entries.length === 0 ? 'Loading...' : 'Load'}
+          </Button>
+        </div>
+
+        {loadedTree && entries.length === 0 && !isLoading && (
+          <p className="text-sm text-gray-500">No finalized transactions found for this tree.</p>
+        )}
+
+        {entries.length > 0 && (
+          <div className="max-h-80 overflow-y-auto border rounded">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-600">
+                  <th className="p-2">Time</th>
+                  <th>Instruction</th>
+                  <th>Leaf</th>
+                  <th>New Root</th>
+                  <th>Signature</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.signature} className={`border-t align-top ${entry.failed ? 'text-red-600' : ''}`}>
+                    <td className="p-2 whitespace-nowrap">
+                      {entry.blockTime ? new Date(entry.blockTime * 1000).toLocaleString() : `Slot ${entry.slot}`}
+                    </td>
+                    <td>{entry.failed ? 'failed' : entry.instructions.join(', ') || '-'}</td>
+                    <td>{entry.changes.map((change) => change.leafIndex).join(', ') || '-'}</td>
+                    <td className="font-mono">
+                      {entry.changes.length > 0 ? `${entry.changes[entry.changes.length - 1].root.slice(0, 8)}...` : '-'}
+                    </td>
+                    <td className="font-mono" title={entry.signature}>{entry.signature.slice(0, 8)}...</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {loadedTree && entries.length > 0 && (
+          <div className="grid grid-cols-2 gap-3">
+            <Button
+              onClick={() => nextBefore && loadPage(loadedTree, nextBefore)}
+              disabled={isLoading || !nextBefore}
+              variant="outline"
+            >
+              {isLoading ? 'Loading...' : nextBefore ? 'Load Older' : 'End of History'}
+            </Button>
+            <Button
+              onClick={() => downloadCsv(`tree-history-${loadedTree}.csv`, treeHistoryToCsv(entries))}
+              variant="outline"
+            >
+              Export CSV ({entries.length} transactions)
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,213 @@
+import React, { useState } from 'react'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { getTreeInfo, type ConcurrentMerkleTreeAccount } from '../lib/merkle-tree'
+import { getTreeConfig, type TreeConfig } from '../lib/bubblegum'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface TreeInspectorProps {
+  connection: Connection
+  initialAddress?: string
+}
+
+export function TreeInspector({ connection, initialAddress = '' }: TreeInspectorProps) {
+  const [address, setAddress] = useState(initialAddress)
+  const [isLoading, setIsLoading] = useState(false)
+  const [inspected, setInspected] = useState<{
+    treeAddress: string
+    tree: ConcurrentMerkleTreeAccount
+    config: TreeConfig | null
+  } | null>(null)
+  const { toast } = useToast()
+
+  // Prefill with a newly created tree
+  React.useEffect(() => {
+    if (initialAddress) {
+      setAddress(initialAddress)
+    }
+  }, [initialAddress])
+
+  const inspectTree = async () => {
+    let treeAddress: PublicKey
+    try {
+      treeAddress = new PublicKey(address.trim())
+    } catch (error) {
+      toast({
+        title: "Invalid tree address",
+        description: "Please paste a valid base58 account address",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsLoading(true)
+    setInspected(null)
+
+    try {
+      const [tree, config] = await Promise.all([
+        getTreeInfo(connection, treeAddress),
+        getTreeConfig(connection, treeAddress)
+      ])
+
+      if (!tree) {
+        toast({
+          title: "Tree not found",
+          description: "No concurrent merkle tree account exists at this address on the selected RPC",
+          variant: "destructive"
+        })
+        return
+      }
+
+      setInspected({ treeAddress: treeAddress.toString(), tree, config })
+    } catch (error) {
+      console.error('Tree inspection failed:', error)
+      toast({
+        title: "Inspection Failed",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Could not load tree accounts",
+        variant: "destructive"
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const renderDetails = () => {
+    if (!inspected) return null
+    const { tree, config } = inspected
+
+    const capacity = Math.pow(2, tree.maxDepth)
+    // Bubblegum's counter is authoritative; fall back to the tree's append index without a config
+    const minted = config ? config.numMinted : tree.rightmostIndex
+    const remaining = Math.max(0, capacity - minted)
+    const percentUsed = (minted / capacity) * 100
+    const filledCanopyNodes = tree.canopy.filter((node) => node.some((byte) => byte !== 0)).length
+
+    return (
+      <div className="space-y-4 text-sm">
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>{minted.toLocaleString()} of {capacity.toLocaleString()} leaves used</span>
+            <span>{percentUsed < 0.01 && minted > 0 ? '<0.01' : percentUsed.toFixed(2)}%</span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded">
+            <div
+              className="h-2 bg-purple-600 rounded"
+              style={{ width: `${Math.min(100, Math.max(percentUsed, minted > 0 ? 1 : 0))}%` }}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Capacity:</strong>
+            <div className="mt-1">{capacity.toLocaleString()}</div>
+          </div>
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Minted:</strong>
+            <div className="mt-1">{minted.toLocaleString()}</div>
+          </div>
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Remaining:</strong>
+            <div className="mt-1">{remaining.toLocaleString()}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Max Depth:</strong>
+            <div className="mt-1">{tree.maxDepth}</div>
+          </div>
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Buffer Size:</strong>
+            <div className="mt-1">{tree.maxBufferSize}</div>
+          </div>
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Canopy Depth:</strong>
+            <div className="mt-1">{tree.canopyDepth}</div>
+          </div>
+        </div>
+
+        <div className="p-3 bg-white rounded border">
+          <strong className="text-gray-700">Canopy Fill:</strong>
+          <div className="mt-1">
+            {tree.canopyDepth > 0
+              ? `${filledCanopyNodes.toLocaleString()} of ${tree.canopy.length.toLocaleString()} cached nodes populated`
+              : 'No canopy - full proofs required'}
+          </div>
+        </div>
+
+        {config ? (
+          <>
+            <div className="p-3 bg-white rounded border">
+              <strong className="text-gray-700">Tree Creator:</strong>
+              <div className="font-mono text-blue-600 break-all mt-1">{config.treeCreator.toString()}</div>
+            </div>
+            <div className="p-3 bg-white rounded border">
+              <strong className="text-gray-700">Tree Delegate:</strong>
+              <div className="font-mono text-blue-600 break-all mt-1">{config.treeDelegate.toString()}</div>
+            </div>
+            <div className="p-3 bg-white rounded border">
+              <strong className="text-gray-700">Minting:</strong>
+              <div className="mt-1">
+                {config.isPublic ? 'Public - anyone can mint' : 'Private - only the creator or delegate can mint'}
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="p-3 bg-yellow-50 rounded border border-yellow-200 text-yellow-800">
+            No Bubblegum TreeConfig found for this tree - it was not created through Bubblegum.
+          </div>
+        )}
+
+        <div className="p-3 bg-white rounded border">
+          <strong className="text-gray-700">Current Root:</strong>
+          <div className="font-mono text-blue-600 break-all mt-1">{new PublicKey(tree.currentRoot).toString()}</div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Sequence Number:</strong>
+            <div className="mt-1">{tree.sequenceNumber.toLocaleString()}</div>
+          </div>
+          <div className="p-3 bg-white rounded border">
+            <strong className="text-gray-700">Created at Slot:</strong>
+            <div className="mt-1">{tree.creationSlot.toLocaleString()}</div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Tree Inspector</CardTitle>
+        <CardDescription>Look up capacity and configuration of any existing tree</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Tree Address
+          </label>
+          <input
+            type="text"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="Paste a merkle tree account address"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          />
+        </div>
+        <Button
+          onClick={inspectTree}
+          disabled={isLoading || !address.trim()}
+          className="w-full"
+          variant="outline"
+        >
+          {isLoading ? 'Loading Tree...' : 'Inspect Tree'}
+        </Button>
+        {renderDetails()}
+      </CardContent>
+    </Card>
+  )
+}
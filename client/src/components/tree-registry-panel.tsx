@@ -0,0 +1,262 @@
+import React, { useState } from 'react'
+import { Connection, PublicKey } from '@solana/web3.js'
+import { getClusterLabel, getExplorerUrl } from '../lib/cluster'
+import {
+  exportTreeRegistry,
+  fetchRegisteredTree,
+  getTreeFillLevel,
+  importTreeRegistry,
+  removeRegisteredTree,
+  sortRegisteredTrees,
+  updateRegisteredTree,
+  upsertRegisteredTree,
+  type RegisteredTree,
+  type RegistrySortKey,
+  type TreeFillLevel,
+  type TreeRegistry
+} from '../lib/tree-registry'
+import { Button } from './ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { useToast } from '../hooks/use-toast'
+
+interface TreeRegistryPanelProps {
+  connection: Connection
+  // Network of the current RPC; only its trees can be refreshed
+  network: string | null
+  registry: TreeRegistry
+  onChange: (registry: TreeRegistry) => void
+}
+
+const treeKey = (tree: RegisteredTree) => `${tree.network}:${tree.address}`
+
+export function TreeRegistryPanel({ connection, network, registry, onChange }: TreeRegistryPanelProps) {
+  const [sortKey, setSortKey] = useState<RegistrySortKey>('addedAt')
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
+  const [importAddress, setImportAddress] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+  const [fillLevels, setFillLevels] = useState<Record<string, TreeFillLevel>>({})
+  const [refreshing, setRefreshing] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const importByAddress = async () => {
+    if (!network) {
+      toast({
+        title: "Verify your RPC first",
+        description: "The registry records which network each tree lives on",
+        variant: "destructive"
+      })
+      return
+    }
+
+    let address: PublicKey
+    try {
+      address = new PublicKey(importAddress.trim())
+    } catch (error) {
+      toast({
+        title: "Invalid tree address",
+        description: "Please paste a valid base58 account address",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setIsImporting(true)
+    try {
+      const tree = await fetchRegisteredTree(connection, address, network)
+      onChange(upsertRegisteredTree(registry, tree))
+      setImportAddress('')
+      toast({
+        title: "Tree Added",
+        description: `Depth ${tree.maxDepth} tree on ${getClusterLabel(network)} added to your registry`,
+      })
+    } catch (error) {
+      toast({
+        title: "Could not add tree",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Failed to read the tree account",
+        variant: "destructive"
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const refreshFill = async (tree: RegisteredTree) => {
+    setRefreshing(treeKey(tree))
+    try {
+      const fill = await getTreeFillLevel(connection, new PublicKey(tree.address))
+      setFillLevels((previous) => ({ ...previous, [treeKey(tree)]: fill }))
+    } catch (error) {
+      toast({
+        title: "Refresh Failed",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Could not read the tree account",
+        variant: "destructive"
+      })
+    } finally {
+      setRefreshing(null)
+    }
+  }
+
+  const exportRegistry = () => {
+    const url = URL.createObjectURL(new Blob([exportTreeRegistry(registry)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'soltree-registry.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importRegistryFile = async (file: File) => {
+    try {
+      const result = importTreeRegistry(registry, await file.text())
+      onChange(result.registry)
+      toast({
+        title: result.errors.length > 0 ? "Imported with issues" : "Registry Imported",
+        description: result.errors.length > 0
+          ? `${result.added} trees added, ${result.errors.length} skipped - ${result.errors[0]}`
+          : `${result.added} new trees added`,
+        variant: result.errors.length > 0 ? "destructive" : "default"
+      })
+    } catch (error) {
+      toast({
+        title: "Could not import registry",
+        description: error instanceof Error ? error.message.slice(0, 100) : "Invalid registry file",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+  const trees = sortRegisteredTrees(registry.trees, sortKey, sortDirection)
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>My Trees</CardTitle>
+        <CardDescription>Every tree you created or imported, saved in this browser</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={importAddress}
+            onChange={(e) => setImportAddress(e.target.value)}
+            placeholder="Add an existing tree by address"
+            className={`${inputClassName} font-mono text-sm`}
+          />
+          <Button onClick={importByAddress} disabled={isImporting || !importAddress.trim()} variant="outline">
+            {isImporting ? 'Adding...' : 'Add'}
+          </Button>
+        </div>
+
+        {trees.length > 0 && (
+          <div className="flex gap-2 items-center text-sm">
+            <span className="text-gray-600">Sort by</span>
+            <select value={sortKey} onChange={(e) => setSortKey(e.target.value as RegistrySortKey)} className="px-2 py-1 border border-gray-300 rounded-md">
+              <option value="addedAt">Date added</option>
+              <option value="label">Label</option>
+              <option value="network">Network</option>
+              <option value="capacity">Capacity</option>
+            </select>
+            <Button onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')} variant="outline" size="sm">
+              {sortDirection === 'asc' ? '↑' : '↓'}
+            </Button>
+          </div>
+        )}
+
+        {trees.length === 0 && (
+          <p className="text-sm text-gray-500">No trees yet - created trees are added automatically.</p>
+        )}
+
+        {trees.map((tree) => {
+          const fill = fillLevels[treeKey(tree)]
+          const canRefresh = tree.network === network
+          return (
+            <div key={treeKey(tree)} className="p-3 border rounded-lg space-y-2">
+              <div className="flex justify-between items-start gap-2">
+                <input
+                  type="text"
+                  defaultValue={tree.label}
+                  placeholder="Label"
+                  onBlur={(e) => onChange(updateRegisteredTree(registry, tree, { label: e.target.value }))}
+                  className="flex-1 px-2 py-1 border border-gray-200 rounded text-sm font-medium"
+                />
+                <span className="text-xs px-2 py-1 bg-gray-100 rounded">{getClusterLabel(tree.network)}</span>
+              </div>
+              <div className="font-mono text-xs text-gray-600 break-all">{tree.address}</div>
+              <div className="text-xs text-gray-600">
+                Depth {tree.maxDepth} · Buffer {tree.maxBufferSize} · Canopy {tree.canopyDepth} · {tree.source === 'created' ? 'Created' : 'Imported'} {new Date(tree.addedAt).toLocaleDateString()}
+              </div>
+
+              {fill && (
+                <div>
+                  <div className="flex justify-between text-xs text-gray-600 mb-1">
+                    <span>{fill.minted.toLocaleString()} of {fill.capacity.toLocaleString()} leaves used</span>
+                    <span>{((fill.minted / fill.capacity) * 100).toFixed(2)}%</span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded">
+                    <div className="h-2 bg-green-600 rounded" style={{ width: `${(fill.minted / fill.capacity) * 100}%` }} />
+                  </div>
+                </div>
+              )}
+
+              <textarea
+                defaultValue={tree.notes}
+                placeholder="Notes"
+                rows={1}
+                onBlur={(e) => onChange(updateRegisteredTree(registry, tree, { notes: e.target.value }))}
+                className="w-full px-2 py-1 border border-gray-200 rounded text-xs"
+              />
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => refreshFill(tree)}
+                  disabled={!canRefresh || refreshing === treeKey(tree)}
+                  title={canRefresh ? undefined : `Connect a ${tree.network} RPC to refresh`}
+                  variant="outline"
+                  size="sm"
+                >
+                  {refreshing === treeKey(tree) ? 'Refreshing...' : 'Refresh Fill'}
+                </Button>
+                <a
+                  href={getExplorerUrl('address', tree.address, tree.network)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-600 hover:underline self-center"
+                >
+                  Explorer
+                </a>
+                <Button
+                  onClick={() => onChange(removeRegisteredTree(registry, tree))}
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto text-red-600"
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+
+        <div className="grid grid-cols-2 gap-3">
+          <Button onClick={exportRegistry} disabled={registry.trees.length === 0} variant="outline">
+            Export JSON
+          </Button>
+          <label className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium cursor-pointer hover:bg-gray-50">
+            Import JSON
+            <input
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) importRegistryFile(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
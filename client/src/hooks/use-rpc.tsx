@@ -0,0 +1,82 @@
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react'
+import { ConnectionProvider } from '@solana/wallet-adapter-react'
+import { createDasClient, type DasClient } from '../lib/das'
+import { createFailoverConfig } from '../lib/rpc-failover'
+
+interface RpcEndpoints {
+  primary: string
+  fallbacks: string[]
+}
+
+interface RpcContextValue {
+  // Primary endpoint the shared Connection was built for
+  endpoint: string
+  fallbackEndpoints: string[]
+  // Endpoint that answered the last request; differs from endpoint after a failover
+  activeEndpoint: string
+  // DAS client that fails over with the Connection
+  das: DasClient
+  isCustom: boolean
+  setEndpoints: (primary: string, fallbacks?: string[]) => void
+  resetEndpoints: () => void
+}
+
+const RpcContext = createContext<RpcContextValue | null>(null)
+
+interface RpcProviderProps {
+  // Used until a custom RPC is verified, e.g. the public endpoint of the wallet's cluster
+  defaultEndpoint: string
+  children: React.ReactNode
+}
+
+// Owns the one Connection the app uses; useConnection() inside returns it, failover included
+export function RpcProvider({ defaultEndpoint, children }: RpcProviderProps) {
+  const [custom, setCustom] = useState<RpcEndpoints | null>(null)
+  const [activeEndpoint, setActiveEndpoint] = useState<string | null>(null)
+
+  const primary = custom?.primary ?? defaultEndpoint
+  const fallbacks = useMemo(() => custom?.fallbacks ?? [], [custom])
+
+  // A new config makes ConnectionProvider build a new Connection
+  const config = useMemo(
+    () => createFailoverConfig([primary, ...fallbacks], setActiveEndpoint),
+    [primary, fallbacks]
+  )
+  const das = useMemo(() => createDasClient(primary, { fetch: config.fetch }), [primary, config])
+
+  const setEndpoints = useCallback((nextPrimary: string, nextFallbacks: string[] = []) => {
+    setCustom({ primary: nextPrimary, fallbacks: nextFallbacks.filter((endpoint) => endpoint !== nextPrimary) })
+    setActiveEndpoint(null)
+  }, [])
+
+  const resetEndpoints = useCallback(() => {
+    setCustom(null)
+    setActiveEndpoint(null)
+  }, [])
+
+  const value = useMemo<RpcContextValue>(() => ({
+    endpoint: primary,
+    fallbackEndpoints: fallbacks,
+    activeEndpoint: activeEndpoint ?? primary,
+    das,
+    isCustom: custom !== null,
+    setEndpoints,
+    resetEndpoints
+  }), [primary, fallbacks, activeEndpoint, das, custom, setEndpoints, resetEndpoints])
+
+  return (
+    <RpcContext.Provider value={value}>
+      <ConnectionProvider endpoint={primary} config={config}>
+        {children}
+      </ConnectionProvider>
+    </RpcContext.Provider>
+  )
+}
+
+export function useRpc(): RpcContextValue {
+  const context = useContext(RpcContext)
+  if (!context) {
+    throw new Error('useRpc must be used within an RpcProvider')
+  }
+  return context
+}
@@ -0,0 +1,386 @@
+import { Connection, PublicKey, SendTransactionError, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { getLeafSchemasFromTransaction, getTreeConfig } from './bubblegum';
+import { getTreeInfo } from './merkle-tree';
+import { createMintIx, validateMintMetadata, type MintCompressedNftParams } from './mint';
+import { fitsInTransaction } from './transactions';
+
+// One recipient of an airdrop, kept as plain strings so jobs can be persisted as JSON
+export interface ManifestRow {
+  leafOwner: string;
+  leafDelegate?: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: { address: string; share: number }[];
+  collectionMint?: string;
+}
+
+export interface ManifestError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedManifest {
+  rows: ManifestRow[];
+  errors: ManifestError[];
+}
+
+export type BatchRowStatus = 'pending' | 'sent' | 'confirmed' | 'failed';
+
+export interface BatchRowState {
+  status: BatchRowStatus;
+  // Set as soon as the transaction is signed, before it is broadcast
+  signature?: string;
+  blockhash?: string;
+  lastValidBlockHeight?: number;
+  assetId?: string;
+  error?: string;
+}
+
+export interface BatchMintJob {
+  treeAddress: string;
+  createdAt: string;
+  rows: ManifestRow[];
+  states: BatchRowState[];
+}
+
+// Transactions signed per wallet prompt; each round gets a fresh blockhash so it can't expire mid-round
+const TRANSACTIONS_PER_SIGNING_ROUND = 20;
+const JOB_STORAGE_PREFIX = 'soltree:batch-mint:';
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings
+function parseCsvLines(text: string): string[][] {
+  const lines: string[][] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      lines.push(fields);
+      fields = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || fields.length > 0) {
+    fields.push(field);
+    lines.push(fields);
+  }
+
+  return lines.filter((line) => line.some((value) => value.trim()));
+}
+
+// Creators in a CSV cell as "address:share;address:share"
+function parseCreatorsCell(cell: string): { address: string; share: number }[] {
+  return cell
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [address, share] = entry.split(':').map((part) => part.trim());
+      return { address, share: Number(share) };
+    });
+}
+
+function normalizeRow(raw: Record<string, unknown>): ManifestRow {
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+  const creators = raw.creators;
+
+  return {
+    leafOwner: text(raw.leafOwner ?? raw.owner),
+    leafDelegate: text(raw.leafDelegate ?? raw.delegate) || undefined,
+    name: text(raw.name),
+    symbol: text(raw.symbol),
+    uri: text(raw.uri),
+    sellerFeeBasisPoints: Number(raw.sellerFeeBasisPoints ?? raw.seller_fee_basis_points ?? 0),
+    creators: Array.isArray(creators)
+      ? creators.map((creator) => ({ address: text(creator?.address), share: Number(creator?.share) }))
+      : parseCreatorsCell(text(creators)),
+    collectionMint: text(raw.collectionMint ?? raw.collection) || undefined
+  };
+}
+
+export function toMintParams(row: ManifestRow, merkleTree: PublicKey): MintCompressedNftParams {
+  return {
+    merkleTree,
+    leafOwner: new PublicKey(row.leafOwner),
+    leafDelegate: row.leafDelegate ? new PublicKey(row.leafDelegate) : undefined,
+    metadata: {
+      name: row.name,
+      symbol: row.symbol,
+      uri: row.uri,
+      sellerFeeBasisPoints: row.sellerFeeBasisPoints,
+      creators: row.creators.map(({ address, share }) => ({ address: new PublicKey(address), share })),
+      collectionMint: row.collectionMint ? new PublicKey(row.collectionMint) : undefined
+    }
+  };
+}
+
+function validateRow(row: ManifestRow): string[] {
+  try {
+    return validateMintMetadata(toMintParams(row, PublicKey.default).metadata);
+  } catch (error) {
+    return ['Invalid owner, delegate, creator or collection address'];
+  }
+}
+
+// Parse a CSV (header row: owner,name,symbol,uri,seller_fee_basis_points,creators,collection,delegate)
+// or JSON (array of rows) manifest and validate every row
+export function parseManifest(text: string, format: 'csv' | 'json'): ParsedManifest {
+  let rawRows: Record<string, unknown>[];
+
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      return { rows: [], errors: [{ row: 0, message: 'JSON manifest must be an array of rows' }] };
+    }
+    rawRows = parsed;
+  } else {
+    const [header = [], ...lines] = parseCsvLines(text);
+    const columns = header.map((column) => column.trim().toLowerCase());
+    rawRows = lines.map((values) =>
+      Object.fromEntries(columns.map((column, index) => [column, values[index] ?? '']))
+    );
+  }
+
+  const rows = rawRows.map(normalizeRow);
+  const errors = rows.flatMap((row, index) =>
+    validateRow(row).map((message) => ({ row: index + 1, message }))
+  );
+
+  return { rows, errors };
+}
+
+// Leaves left in a tree, preferring Bubblegum's mint counter over the tree's append index
+export async function getRemainingCapacity(connection: Connection, merkleTree: PublicKey): Promise<number> {
+  const config = await getTreeConfig(connection, merkleTree);
+  if (config) {
+    return config.totalMintCapacity - config.numMinted;
+  }
+
+  const tree = await getTreeInfo(connection, merkleTree);
+  if (!tree) {
+    throw new Error('Tree account not found');
+  }
+  return Math.pow(2, tree.maxDepth) - tree.rightmostIndex;
+}
+
+export function createBatchMintJob(treeAddress: string, rows: ManifestRow[]): BatchMintJob {
+  return {
+    treeAddress,
+    createdAt: new Date().toISOString(),
+    rows,
+    states: rows.map(() => ({ status: 'pending' }))
+  };
+}
+
+export function loadBatchMintJob(treeAddress: string): BatchMintJob | null {
+  const stored = localStorage.getItem(JOB_STORAGE_PREFIX + treeAddress);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function saveBatchMintJob(job: BatchMintJob) {
+  localStorage.setItem(JOB_STORAGE_PREFIX + job.treeAddress, JSON.stringify(job));
+}
+
+export function clearBatchMintJob(treeAddress: string) {
+  localStorage.removeItem(JOB_STORAGE_PREFIX + treeAddress);
+}
+
+function updateRows(job: BatchMintJob, rowIndexes: number[], state: BatchRowState): BatchMintJob {
+  const states = [...job.states];
+  rowIndexes.forEach((index) => {
+    states[index] = state;
+  });
+  return { ...job, states };
+}
+
+// Group row indexes so each group's mint instructions fit in one transaction
+export function packMintRows(job: BatchMintJob, payer: PublicKey, rowIndexes: number[]): number[][] {
+  const merkleTree = new PublicKey(job.treeAddress);
+  const groups: number[][] = [];
+  let current: number[] = [];
+
+  for (const index of rowIndexes) {
+    const candidate = [...current, index];
+    const instructions = candidate.map((rowIndex) => createMintIx(payer, toMintParams(job.rows[rowIndex], merkleTree)));
+
+    if (fitsInTransaction(instructions, payer)) {
+      current = candidate;
+    } else if (current.length === 0) {
+      throw new Error(`Row ${index + 1} does not fit in a transaction on its own`);
+    } else {
+      groups.push(current);
+      current = [index];
+    }
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups;
+}
+
+// Settle rows left in 'sent' by an interrupted run. A signature that never landed is only
+// retried once its blockhash has expired, so it can't be minted twice.
+export async function reconcileBatchMintJob(connection: Connection, job: BatchMintJob): Promise<BatchMintJob> {
+  const sentSignatures = Array.from(
+    new Set(job.states.filter((state) => state.status === 'sent').map((state) => state.signature!))
+  );
+  if (sentSignatures.length === 0) {
+    return job;
+  }
+
+  const [{ value: statuses }, blockHeight] = await Promise.all([
+    connection.getSignatureStatuses(sentSignatures, { searchTransactionHistory: true }),
+    connection.getBlockHeight('confirmed')
+  ]);
+
+  let reconciled = job;
+  for (let i = 0; i < sentSignatures.length; i++) {
+    const signature = sentSignatures[i];
+    const status = statuses[i];
+    const rowIndexes = job.states
+      .map((state, index) => (state.signature === signature ? index : -1))
+      .filter((index) => index >= 0);
+    const sentState = job.states[rowIndexes[0]];
+
+    if (status?.err) {
+      reconciled = updateRows(reconciled, rowIndexes, { status: 'failed', signature, error: JSON.stringify(status.err) });
+    } else if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      reconciled = markConfirmed(reconciled, rowIndexes, signature, await getBatchAssetIds(connection, signature));
+    } else if (!status && blockHeight > (sentState.lastValidBlockHeight ?? 0)) {
+      reconciled = updateRows(reconciled, rowIndexes, { status: 'pending' });
+    }
+  }
+
+  return reconciled;
+}
+
+// Asset IDs of a confirmed batch; leaf events are logged in instruction order, matching the row order
+async function getBatchAssetIds(connection: Connection, signature: string): Promise<(string | undefined)[]> {
+  const leaves = await getLeafSchemasFromTransaction(connection, signature).catch(() => []);
+  return leaves.map((leaf) => leaf.id.toString());
+}
+
+function markConfirmed(
+  job: BatchMintJob,
+  rowIndexes: number[],
+  signature: string,
+  assetIds: (string | undefined)[]
+): BatchMintJob {
+  const states = [...job.states];
+  rowIndexes.forEach((rowIndex, i) => {
+    states[rowIndex] = { status: 'confirmed', signature, assetId: assetIds[i] };
+  });
+  return { ...job, states };
+}
+
+export async function runBatchMint(
+  connection: Connection,
+  payer: PublicKey,
+  signAllTransactions: <T extends Transaction>(transactions: T[]) => Promise<T[]>,
+  initialJob: BatchMintJob,
+  onUpdate: (job: BatchMintJob) => void
+): Promise<BatchMintJob> {
+  let job = initialJob;
+  const commit = (next: BatchMintJob) => {
+    job = next;
+    saveBatchMintJob(job);
+    onUpdate(job);
+  };
+
+  commit(await reconcileBatchMintJob(connection, job));
+  if (job.states.some((state) => state.status === 'sent')) {
+    throw new Error('Earlier transactions are still in flight - resume once their blockhash expires');
+  }
+
+  const pendingRows = job.states
+    .map((state, index) => (state.status === 'pending' ? index : -1))
+    .filter((index) => index >= 0);
+  const groups = packMintRows(job, payer, pendingRows);
+  const merkleTree = new PublicKey(job.treeAddress);
+
+  for (let start = 0; start < groups.length; start += TRANSACTIONS_PER_SIGNING_ROUND) {
+    const round = groups.slice(start, start + TRANSACTIONS_PER_SIGNING_ROUND);
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+
+    const transactions = round.map((rowIndexes) => {
+      const transaction = new Transaction({ feePayer: payer, blockhash, lastValidBlockHeight });
+      rowIndexes.forEach((rowIndex) => transaction.add(createMintIx(payer, toMintParams(job.rows[rowIndex], merkleTree))));
+      return transaction;
+    });
+
+    const signedTransactions = await signAllTransactions(transactions);
+
+    // Persist signatures before broadcasting so a reload can never mint the same rows again
+    let sentJob = job;
+    signedTransactions.forEach((transaction, i) => {
+      sentJob = updateRows(sentJob, round[i], {
+        status: 'sent',
+        signature: bs58.encode(transaction.signature!),
+        blockhash,
+        lastValidBlockHeight
+      });
+    });
+    commit(sentJob);
+
+    await Promise.all(
+      signedTransactions.map(async (transaction, i) => {
+        const rowIndexes = round[i];
+        const signature = bs58.encode(transaction.signature!);
+        try {
+          await connection.sendRawTransaction(transaction.serialize(), {
+            skipPreflight: false,
+            preflightCommitment: 'processed'
+          });
+          const { value } = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+          if (value.err) {
+            commit(updateRows(job, rowIndexes, { status: 'failed', signature, error: JSON.stringify(value.err) }));
+          } else {
+            const assetIds = await getBatchAssetIds(connection, signature);
+            commit(markConfirmed(job, rowIndexes, signature, assetIds));
+          }
+        } catch (error) {
+          console.error(`Batch mint transaction ${signature} failed:`, error);
+          if (error instanceof SendTransactionError) {
+            // Rejected by the RPC, so it never reached the cluster
+            commit(updateRows(job, rowIndexes, { status: 'failed', signature, error: error.message.slice(0, 200) }));
+          }
+          // Otherwise left as 'sent': the next reconcile settles it once the blockhash has expired
+        }
+      })
+    );
+  }
+
+  return job;
+}
+
+// Put failed rows back in the queue
+export function retryFailedRows(job: BatchMintJob): BatchMintJob {
+  return {
+    ...job,
+    states: job.states.map((state) => (state.status === 'failed' ? { status: 'pending' } : state))
+  };
+}
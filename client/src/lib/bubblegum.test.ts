@@ -0,0 +1,289 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { PublicKey, type AccountInfo, type Connection, type TransactionInstruction } from '@solana/web3.js';
+import {
+  burn,
+  delegate,
+  getBurnInstructionDataSerializer,
+  getDelegateInstructionDataSerializer,
+  getMintToCollectionV1InstructionDataSerializer,
+  getMintV1InstructionDataSerializer,
+  getTransferInstructionDataSerializer,
+  mintToCollectionV1,
+  mintV1,
+  transfer,
+  type MetadataArgsArgs
+} from '@metaplex-foundation/mpl-bubblegum';
+import {
+  createNoopSigner,
+  createNullContext,
+  publicKey,
+  type Context,
+  type Instruction,
+  type Pda,
+  type TransactionBuilder
+} from '@metaplex-foundation/umi';
+import {
+  createBurnIx,
+  createDelegateIx,
+  createMintToCollectionV1Ix,
+  createMintV1Ix,
+  createTransferIx,
+  getAssetId,
+  getBubblegumSignerPda,
+  getLeafSchema,
+  getTreeConfig,
+  hashCreators,
+  hashLeaf,
+  hashMetadataData,
+  TOKEN_METADATA_PROGRAM_ID,
+  TREE_CONFIG_SIZE,
+  type LeafChangeArgs,
+  type MetadataArgs
+} from './bubblegum';
+import { InvalidConfig } from './errors';
+import { BUBBLEGUM_PROGRAM_ID, getTreeAuthority } from './merkle-tree';
+import fixture from './__fixtures__/bubblegum-leaves.json';
+
+type FixtureMetadata = (typeof fixture.vectors)[number]['metadata'];
+
+function toMetadataArgs(metadata: FixtureMetadata): MetadataArgs {
+  return {
+    ...metadata,
+    collection: metadata.collection && { verified: metadata.collection.verified, key: new PublicKey(metadata.collection.key) },
+    creators: metadata.creators.map((creator) => ({ ...creator, address: new PublicKey(creator.address) }))
+  };
+}
+
+// The same metadata in mpl-bubblegum's shape, which takes null for a missing option
+function toReferenceMetadata(metadata: FixtureMetadata): MetadataArgsArgs {
+  return {
+    ...metadata,
+    collection: metadata.collection && { verified: metadata.collection.verified, key: publicKey(metadata.collection.key) },
+    creators: metadata.creators.map((creator) => ({ ...creator, address: publicKey(creator.address) }))
+  };
+}
+
+type LeafVector = (typeof fixture.vectors)[number];
+// Captured from a mainnet asset; source names it
+type MainnetLeafVector = LeafVector & { source: string };
+
+function describeLeafVector(vector: LeafVector) {
+  describe(vector.name, () => {
+    const merkleTree = new PublicKey(vector.merkleTree);
+    const metadata = toMetadataArgs(vector.metadata);
+
+    it('derives the asset ID', () => {
+      expect(getAssetId(merkleTree, vector.nonce).toString()).toBe(vector.expected.assetId);
+      expect(getAssetId(merkleTree, BigInt(vector.nonce)).toString()).toBe(vector.expected.assetId);
+    });
+
+    it('hashes the metadata and creators', () => {
+      expect(hashMetadataData(metadata).toString('hex')).toBe(vector.expected.dataHash);
+      expect(hashCreators(metadata.creators).toString('hex')).toBe(vector.expected.creatorHash);
+    });
+
+    it('hashes the leaf', () => {
+      const leaf = getLeafSchema(merkleTree, vector.nonce, new PublicKey(vector.owner), new PublicKey(vector.delegate), metadata);
+      expect(leaf.id.toString()).toBe(vector.expected.assetId);
+      expect(hashLeaf(leaf).toString('hex')).toBe(vector.expected.leafHash);
+    });
+  });
+}
+
+describe('Bubblegum leaf hashing', () => {
+  fixture.vectors.forEach(describeLeafVector);
+});
+
+describe('Bubblegum leaf hashing against mainnet assets', () => {
+  const vectors = fixture.mainnetVectors as MainnetLeafVector[];
+  if (vectors.length === 0) {
+    it.todo('checks a leaf captured from a mainnet asset');
+  }
+  vectors.forEach((vector) => describeLeafVector({ ...vector, name: `${vector.name} (${vector.source})` }));
+});
+
+describe('Bubblegum instructions', () => {
+  // Enough of a Umi context for mpl-bubblegum to derive PDAs and resolve its default programs
+  const nullContext = createNullContext();
+  const context: Pick<Context, 'eddsa' | 'identity' | 'payer' | 'programs'> = {
+    eddsa: {
+      ...nullContext.eddsa,
+      findPda: (programId, seeds) => {
+        const [address, bump] = PublicKey.findProgramAddressSync(seeds.map((seed) => Buffer.from(seed)), new PublicKey(programId));
+        return [publicKey(address.toBase58()), bump] as Pda;
+      }
+    },
+    identity: nullContext.identity,
+    payer: nullContext.payer,
+    programs: { ...nullContext.programs, getPublicKey: (_name, fallback) => publicKey(fallback!) }
+  };
+
+  const signer = (address: PublicKey) => createNoopSigner(publicKey(address.toBase58()));
+  const only = (builder: TransactionBuilder): Instruction => builder.getInstructions()[0];
+
+  // Same program, accounts in the same order with the same flags, and the same bytes
+  function expectSameInstruction(ix: TransactionInstruction, reference: Instruction) {
+    expect(ix.programId.toBase58()).toBe(reference.programId.toString());
+    expect(ix.keys.map(({ pubkey, isSigner, isWritable }) => ({ pubkey: pubkey.toBase58(), isSigner, isWritable }))).toEqual(
+      reference.keys.map(({ pubkey, isSigner, isWritable }) => ({ pubkey: pubkey.toString(), isSigner, isWritable }))
+    );
+    expect(Buffer.from(ix.data).toString('hex')).toBe(Buffer.from(reference.data).toString('hex'));
+  }
+
+  const vector = fixture.vectors[1];
+  const merkleTree = new PublicKey(vector.merkleTree);
+  const owner = new PublicKey(vector.owner);
+  const leafDelegate = new PublicKey(vector.delegate);
+  const payer = new PublicKey('HhRuWUkVLSVkPhSK1dSrdHn8pCXwDEs8dXmjVLX2cTaP');
+  const collectionMint = new PublicKey(vector.metadata.collection!.key);
+  const metadata = toMetadataArgs(vector.metadata);
+  const referenceMetadata = toReferenceMetadata(vector.metadata);
+
+  const leafArgs: LeafChangeArgs = {
+    root: Buffer.alloc(32, 1),
+    dataHash: Buffer.from(vector.expected.dataHash, 'hex'),
+    creatorHash: Buffer.from(vector.expected.creatorHash, 'hex'),
+    nonce: vector.nonce,
+    index: vector.nonce
+  };
+  const proof = [Buffer.alloc(32, 2), Buffer.alloc(32, 3)];
+  const referenceProof = proof.map((node) => publicKey(new PublicKey(node).toBase58()));
+
+  it('builds mint_v1 like mpl-bubblegum', () => {
+    const ix = createMintV1Ix({ merkleTree, leafOwner: owner, leafDelegate, payer, treeCreatorOrDelegate: payer }, metadata);
+    expectSameInstruction(ix, only(mintV1(context, {
+      merkleTree: publicKey(vector.merkleTree),
+      leafOwner: publicKey(vector.owner),
+      leafDelegate: publicKey(vector.delegate),
+      payer: signer(payer),
+      treeCreatorOrDelegate: signer(payer),
+      metadata: referenceMetadata
+    })));
+
+    const [decoded] = getMintV1InstructionDataSerializer().deserialize(ix.data);
+    expect(decoded.metadata.name).toBe(vector.metadata.name);
+    expect(decoded.metadata.creators.map((creator) => creator.address.toString())).toEqual(
+      vector.metadata.creators.map((creator) => creator.address)
+    );
+  });
+
+  it('builds mint_to_collection_v1 like mpl-bubblegum', () => {
+    const ix = createMintToCollectionV1Ix(
+      { merkleTree, leafOwner: owner, leafDelegate, payer, treeCreatorOrDelegate: payer, collectionMint, collectionAuthority: payer },
+      metadata
+    );
+    expectSameInstruction(ix, only(mintToCollectionV1(context, {
+      merkleTree: publicKey(vector.merkleTree),
+      leafOwner: publicKey(vector.owner),
+      leafDelegate: publicKey(vector.delegate),
+      payer: signer(payer),
+      treeCreatorOrDelegate: signer(payer),
+      collectionAuthority: signer(payer),
+      collectionMint: publicKey(collectionMint.toBase58()),
+      // mpl-bubblegum 5 defaults both to the Bubblegum ID; compare against the accounts this app passes
+      bubblegumSigner: publicKey(getBubblegumSignerPda().toBase58()),
+      tokenMetadataProgram: publicKey(TOKEN_METADATA_PROGRAM_ID.toBase58()),
+      metadata: referenceMetadata
+    })));
+
+    const [decoded] = getMintToCollectionV1InstructionDataSerializer().deserialize(ix.data);
+    expect(decoded.metadata.uri).toBe(vector.metadata.uri);
+  });
+
+  it('builds transfer like mpl-bubblegum, for the owner and for the delegate', () => {
+    const newLeafOwner = payer;
+    for (const authority of [owner, leafDelegate]) {
+      const ix = createTransferIx({ merkleTree, leafOwner: owner, leafDelegate, newLeafOwner, authority }, leafArgs, proof);
+      expectSameInstruction(ix, only(transfer(context, {
+        merkleTree: publicKey(vector.merkleTree),
+        leafOwner: authority.equals(owner) ? signer(owner) : publicKey(vector.owner),
+        leafDelegate: authority.equals(leafDelegate) ? signer(leafDelegate) : publicKey(vector.delegate),
+        newLeafOwner: publicKey(newLeafOwner.toBase58()),
+        ...leafArgs,
+        proof: referenceProof
+      })));
+    }
+
+    const ix = createTransferIx({ merkleTree, leafOwner: owner, leafDelegate, newLeafOwner, authority: owner }, leafArgs, proof);
+    const [decoded] = getTransferInstructionDataSerializer().deserialize(ix.data);
+    expect(Buffer.from(decoded.root).equals(leafArgs.root)).toBe(true);
+    expect(Number(decoded.nonce)).toBe(leafArgs.nonce);
+    expect(decoded.index).toBe(leafArgs.index);
+  });
+
+  it('builds delegate like mpl-bubblegum', () => {
+    const newLeafDelegate = payer;
+    const ix = createDelegateIx({ merkleTree, leafOwner: owner, previousLeafDelegate: leafDelegate, newLeafDelegate }, leafArgs, proof);
+    expectSameInstruction(ix, only(delegate(context, {
+      merkleTree: publicKey(vector.merkleTree),
+      leafOwner: signer(owner),
+      previousLeafDelegate: publicKey(vector.delegate),
+      newLeafDelegate: publicKey(newLeafDelegate.toBase58()),
+      ...leafArgs,
+      proof: referenceProof
+    })));
+
+    const [decoded] = getDelegateInstructionDataSerializer().deserialize(ix.data);
+    expect(Buffer.from(decoded.dataHash).equals(leafArgs.dataHash)).toBe(true);
+  });
+
+  it('builds burn like mpl-bubblegum', () => {
+    const ix = createBurnIx({ merkleTree, leafOwner: owner, leafDelegate, authority: owner }, leafArgs, proof);
+    expectSameInstruction(ix, only(burn(context, {
+      merkleTree: publicKey(vector.merkleTree),
+      leafOwner: signer(owner),
+      leafDelegate: publicKey(vector.delegate),
+      ...leafArgs,
+      proof: referenceProof
+    })));
+
+    const [decoded] = getBurnInstructionDataSerializer().deserialize(ix.data);
+    expect(Buffer.from(decoded.creatorHash).equals(leafArgs.creatorHash)).toBe(true);
+  });
+});
+
+describe('getTreeConfig', () => {
+  const tree = new PublicKey(fixture.vectors[0].merkleTree);
+  const creator = new PublicKey(fixture.vectors[0].owner);
+  const [configAddress] = getTreeAuthority(tree);
+
+  const connectionWith = (data: Buffer | null) =>
+    ({
+      getAccountInfo: async (address: PublicKey) => {
+        expect(address.equals(configAddress)).toBe(true);
+        return data && ({ data, owner: BUBBLEGUM_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 } as AccountInfo<Buffer>);
+      }
+    }) as unknown as Connection;
+
+  // Anchor layout: discriminator, creator, delegate, capacity, minted, is_public, is_decompressible
+  const configData = Buffer.alloc(TREE_CONFIG_SIZE);
+  createHash('sha256').update('account:TreeConfig').digest().copy(configData, 0, 0, 8);
+  creator.toBuffer().copy(configData, 8);
+  creator.toBuffer().copy(configData, 40);
+  configData.writeBigUInt64LE(BigInt(16_384), 72);
+  configData.writeBigUInt64LE(BigInt(3), 80);
+  configData.writeUInt8(1, 88);
+  configData.writeUInt8(1, 89);
+
+  it('decodes the config PDA', async () => {
+    await expect(getTreeConfig(connectionWith(configData), tree)).resolves.toMatchObject({
+      totalMintCapacity: 16_384,
+      numMinted: 3,
+      isPublic: true,
+      isDecompressible: 'disabled'
+    });
+  });
+
+  it('returns null when the tree has no config', async () => {
+    await expect(getTreeConfig(connectionWith(null), tree)).resolves.toBeNull();
+  });
+
+  it('rejects an account that is not a TreeConfig as invalid input', async () => {
+    for (const data of [Buffer.alloc(TREE_CONFIG_SIZE), configData.subarray(0, 40)]) {
+      const error = await getTreeConfig(connectionWith(data), tree).catch((e) => e);
+      expect(error).toBeInstanceOf(InvalidConfig);
+      expect(error.field).toBe('treeAddress');
+    }
+  });
+});
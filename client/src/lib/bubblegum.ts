@@ -0,0 +1,534 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  type VersionedTransactionResponse
+} from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import bs58 from 'bs58';
+import {
+  BUBBLEGUM_PROGRAM_ID,
+  SPL_ACCOUNT_COMPRESSION_PROGRAM_ID,
+  SPL_NOOP_PROGRAM_ID,
+  getTreeAuthority
+} from './merkle-tree';
+import { keccak256 } from './concurrent-merkle-tree';
+import { InvalidConfig } from './errors';
+
+export const TOKEN_METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// Anchor account discriminator of Bubblegum's TreeConfig (sha256("account:TreeConfig")[0..8])
+const TREE_CONFIG_DISCRIMINATOR = Buffer.from([122, 245, 175, 248, 171, 34, 0, 207]);
+
+// Space Bubblegum allocates for the TreeConfig PDA
+export const TREE_CONFIG_SIZE = 96;
+
+export type DecompressibleState = 'enabled' | 'disabled';
+
+export interface TreeConfig {
+  address: PublicKey;
+  treeCreator: PublicKey;
+  treeDelegate: PublicKey;
+  totalMintCapacity: number;
+  numMinted: number;
+  isPublic: boolean;
+  isDecompressible: DecompressibleState;
+}
+
+// Deserialize the TreeConfig PDA: discriminator, tree_creator, tree_delegate,
+// total_mint_capacity (u64), num_minted (u64), is_public (bool), is_decompressible (enum)
+export function deserializeTreeConfig(address: PublicKey, data: Buffer): TreeConfig {
+  if (data.length < 90 || !data.subarray(0, 8).equals(TREE_CONFIG_DISCRIMINATOR)) {
+    throw new Error('Account is not a Bubblegum TreeConfig');
+  }
+
+  return {
+    address,
+    treeCreator: new PublicKey(data.subarray(8, 40)),
+    treeDelegate: new PublicKey(data.subarray(40, 72)),
+    totalMintCapacity: Number(data.readBigUInt64LE(72)),
+    numMinted: Number(data.readBigUInt64LE(80)),
+    isPublic: data.readUInt8(88) === 1,
+    isDecompressible: data.readUInt8(89) === 0 ? 'enabled' : 'disabled'
+  };
+}
+
+// Fetch the TreeConfig PDA of a tree, or null when the tree has no Bubblegum config
+export async function getTreeConfig(
+  connection: Connection,
+  treeAddress: PublicKey
+): Promise<TreeConfig | null> {
+  const [treeConfigAddress] = getTreeAuthority(treeAddress);
+  const accountInfo = await connection.getAccountInfo(treeConfigAddress);
+  if (!accountInfo) {
+    return null;
+  }
+
+  // Something else at the config PDA means the address is not a Bubblegum tree
+  try {
+    return deserializeTreeConfig(treeConfigAddress, Buffer.from(accountInfo.data));
+  } catch (error) {
+    throw new InvalidConfig(
+      `${treeAddress.toString()} has no Bubblegum TreeConfig: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'treeAddress',
+      { cause: error }
+    );
+  }
+}
+
+export enum TokenStandard {
+  NonFungible,
+  FungibleAsset,
+  Fungible,
+  NonFungibleEdition
+}
+
+export enum UseMethod {
+  Burn,
+  Multiple,
+  Single
+}
+
+export enum TokenProgramVersion {
+  Original,
+  Token2022
+}
+
+export interface Creator {
+  address: PublicKey;
+  verified: boolean;
+  // Percentage of royalties, all shares must add up to 100
+  share: number;
+}
+
+export interface MetadataArgs {
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  primarySaleHappened: boolean;
+  isMutable: boolean;
+  editionNonce: number | null;
+  tokenStandard: TokenStandard | null;
+  collection: { verified: boolean; key: PublicKey } | null;
+  uses: { useMethod: UseMethod; remaining: number; total: number } | null;
+  tokenProgramVersion: TokenProgramVersion;
+  creators: Creator[];
+}
+
+// Borsh encoders for the MetadataArgs layout
+function encodeU8(value: number): Buffer {
+  return Buffer.from([value]);
+}
+
+function encodeBool(value: boolean): Buffer {
+  return encodeU8(value ? 1 : 0);
+}
+
+function encodeU16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+}
+
+function encodeU32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function encodeU64(value: number | bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(BigInt(value));
+  return buffer;
+}
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  return Buffer.concat([encodeU32(bytes.length), bytes]);
+}
+
+function encodeOption<T>(value: T | null, encode: (value: T) => Buffer): Buffer {
+  return value === null ? encodeU8(0) : Buffer.concat([encodeU8(1), encode(value)]);
+}
+
+export function serializeMetadataArgs(metadata: MetadataArgs): Buffer {
+  return Buffer.concat([
+    encodeString(metadata.name),
+    encodeString(metadata.symbol),
+    encodeString(metadata.uri),
+    encodeU16(metadata.sellerFeeBasisPoints),
+    encodeBool(metadata.primarySaleHappened),
+    encodeBool(metadata.isMutable),
+    encodeOption(metadata.editionNonce, encodeU8),
+    encodeOption(metadata.tokenStandard, encodeU8),
+    encodeOption(metadata.collection, (collection) =>
+      Buffer.concat([encodeBool(collection.verified), collection.key.toBuffer()])
+    ),
+    encodeOption(metadata.uses, (uses) =>
+      Buffer.concat([encodeU8(uses.useMethod), encodeU64(uses.remaining), encodeU64(uses.total)])
+    ),
+    encodeU8(metadata.tokenProgramVersion),
+    encodeU32(metadata.creators.length),
+    ...metadata.creators.map((creator) =>
+      Buffer.concat([creator.address.toBuffer(), encodeBool(creator.verified), encodeU8(creator.share)])
+    )
+  ]);
+}
+
+// Anchor discriminators of the Bubblegum mint instructions
+const MINT_V1_DISCRIMINATOR = Buffer.from([145, 98, 192, 118, 184, 147, 118, 104]);
+const MINT_TO_COLLECTION_V1_DISCRIMINATOR = Buffer.from([153, 18, 178, 47, 197, 158, 86, 15]);
+
+export interface MintAccounts {
+  merkleTree: PublicKey;
+  leafOwner: PublicKey;
+  leafDelegate: PublicKey;
+  payer: PublicKey;
+  // Tree creator, or its delegate, unless the tree is public
+  treeCreatorOrDelegate: PublicKey;
+}
+
+export function getMetadataPda(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+export function getMasterEditionPda(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer(), Buffer.from('edition')],
+    TOKEN_METADATA_PROGRAM_ID
+  )[0];
+}
+
+// PDA Bubblegum signs collection CPIs to Token Metadata with
+export function getBubblegumSignerPda(): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from('collection_cpi')], BUBBLEGUM_PROGRAM_ID)[0];
+}
+
+export function createMintV1Ix(accounts: MintAccounts, metadata: MetadataArgs): TransactionInstruction {
+  const [treeAuthority] = getTreeAuthority(accounts.merkleTree);
+
+  return new TransactionInstruction({
+    programId: BUBBLEGUM_PROGRAM_ID,
+    keys: [
+      { pubkey: treeAuthority, isSigner: false, isWritable: true },
+      { pubkey: accounts.leafOwner, isSigner: false, isWritable: false },
+      { pubkey: accounts.leafDelegate, isSigner: false, isWritable: false },
+      { pubkey: accounts.merkleTree, isSigner: false, isWritable: true },
+      { pubkey: accounts.payer, isSigner: true, isWritable: false },
+      { pubkey: accounts.treeCreatorOrDelegate, isSigner: true, isWritable: false },
+      { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.concat([MINT_V1_DISCRIMINATOR, serializeMetadataArgs(metadata)]),
+  });
+}
+
+export function createMintToCollectionV1Ix(
+  accounts: MintAccounts & {
+    collectionMint: PublicKey;
+    // Update authority of the collection NFT
+    collectionAuthority: PublicKey;
+  },
+  metadata: MetadataArgs
+): TransactionInstruction {
+  const [treeAuthority] = getTreeAuthority(accounts.merkleTree);
+
+  return new TransactionInstruction({
+    programId: BUBBLEGUM_PROGRAM_ID,
+    keys: [
+      { pubkey: treeAuthority, isSigner: false, isWritable: true },
+      { pubkey: accounts.leafOwner, isSigner: false, isWritable: false },
+      { pubkey: accounts.leafDelegate, isSigner: false, isWritable: false },
+      { pubkey: accounts.merkleTree, isSigner: false, isWritable: true },
+      { pubkey: accounts.payer, isSigner: true, isWritable: false },
+      { pubkey: accounts.treeCreatorOrDelegate, isSigner: true, isWritable: false },
+      { pubkey: accounts.collectionAuthority, isSigner: true, isWritable: false },
+      // No collection authority record: Bubblegum treats its own program ID as None
+      { pubkey: BUBBLEGUM_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: accounts.collectionMint, isSigner: false, isWritable: false },
+      { pubkey: getMetadataPda(accounts.collectionMint), isSigner: false, isWritable: true },
+      { pubkey: getMasterEditionPda(accounts.collectionMint), isSigner: false, isWritable: false },
+      { pubkey: getBubblegumSignerPda(), isSigner: false, isWritable: false },
+      { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_METADATA_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.concat([MINT_TO_COLLECTION_V1_DISCRIMINATOR, serializeMetadataArgs(metadata)]),
+  });
+}
+
+// Anchor discriminators of the Bubblegum instructions that replace an existing leaf
+const TRANSFER_DISCRIMINATOR = Buffer.from([163, 52, 200, 231, 140, 3, 69, 186]);
+const DELEGATE_DISCRIMINATOR = Buffer.from([90, 147, 75, 178, 85, 88, 4, 137]);
+const BURN_DISCRIMINATOR = Buffer.from([116, 110, 29, 56, 107, 219, 42, 93]);
+
+// The current leaf, identified the way Bubblegum re-hashes it to verify the proof
+export interface LeafChangeArgs {
+  root: Buffer;
+  dataHash: Buffer;
+  creatorHash: Buffer;
+  nonce: number;
+  index: number;
+}
+
+export interface TransferAccounts {
+  merkleTree: PublicKey;
+  leafOwner: PublicKey;
+  leafDelegate: PublicKey;
+  newLeafOwner: PublicKey;
+  // The leaf owner or delegate signing the transfer
+  authority: PublicKey;
+}
+
+export interface DelegateAccounts {
+  merkleTree: PublicKey;
+  leafOwner: PublicKey;
+  previousLeafDelegate: PublicKey;
+  newLeafDelegate: PublicKey;
+}
+
+export interface BurnAccounts {
+  merkleTree: PublicKey;
+  leafOwner: PublicKey;
+  leafDelegate: PublicKey;
+  // The leaf owner or delegate signing the burn
+  authority: PublicKey;
+}
+
+function encodeLeafChangeArgs(args: LeafChangeArgs): Buffer {
+  return Buffer.concat([args.root, args.dataHash, args.creatorHash, encodeU64(args.nonce), encodeU32(args.index)]);
+}
+
+// Proof nodes below the canopy go in remaining accounts; the program reads the rest from the canopy
+function getProofAccounts(proof: Buffer[]) {
+  return proof.map((node) => ({ pubkey: new PublicKey(node), isSigner: false, isWritable: false }));
+}
+
+function getCompressionAccounts(merkleTree: PublicKey) {
+  return [
+    { pubkey: merkleTree, isSigner: false, isWritable: true },
+    { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+}
+
+export function createTransferIx(accounts: TransferAccounts, args: LeafChangeArgs, proof: Buffer[]): TransactionInstruction {
+  const [treeConfig] = getTreeAuthority(accounts.merkleTree);
+
+  return new TransactionInstruction({
+    programId: BUBBLEGUM_PROGRAM_ID,
+    keys: [
+      { pubkey: treeConfig, isSigner: false, isWritable: false },
+      { pubkey: accounts.leafOwner, isSigner: accounts.leafOwner.equals(accounts.authority), isWritable: false },
+      { pubkey: accounts.leafDelegate, isSigner: accounts.leafDelegate.equals(accounts.authority), isWritable: false },
+      { pubkey: accounts.newLeafOwner, isSigner: false, isWritable: false },
+      ...getCompressionAccounts(accounts.merkleTree),
+      ...getProofAccounts(proof),
+    ],
+    data: Buffer.concat([TRANSFER_DISCRIMINATOR, encodeLeafChangeArgs(args)]),
+  });
+}
+
+export function createDelegateIx(accounts: DelegateAccounts, args: LeafChangeArgs, proof: Buffer[]): TransactionInstruction {
+  const [treeConfig] = getTreeAuthority(accounts.merkleTree);
+
+  return new TransactionInstruction({
+    programId: BUBBLEGUM_PROGRAM_ID,
+    keys: [
+      { pubkey: treeConfig, isSigner: false, isWritable: false },
+      { pubkey: accounts.leafOwner, isSigner: true, isWritable: false },
+      { pubkey: accounts.previousLeafDelegate, isSigner: false, isWritable: false },
+      { pubkey: accounts.newLeafDelegate, isSigner: false, isWritable: false },
+      ...getCompressionAccounts(accounts.merkleTree),
+      ...getProofAccounts(proof),
+    ],
+    data: Buffer.concat([DELEGATE_DISCRIMINATOR, encodeLeafChangeArgs(args)]),
+  });
+}
+
+export function createBurnIx(accounts: BurnAccounts, args: LeafChangeArgs, proof: Buffer[]): TransactionInstruction {
+  const [treeConfig] = getTreeAuthority(accounts.merkleTree);
+
+  return new TransactionInstruction({
+    programId: BUBBLEGUM_PROGRAM_ID,
+    keys: [
+      { pubkey: treeConfig, isSigner: false, isWritable: false },
+      { pubkey: accounts.leafOwner, isSigner: accounts.leafOwner.equals(accounts.authority), isWritable: false },
+      { pubkey: accounts.leafDelegate, isSigner: accounts.leafDelegate.equals(accounts.authority), isWritable: false },
+      ...getCompressionAccounts(accounts.merkleTree),
+      ...getProofAccounts(proof),
+    ],
+    data: Buffer.concat([BURN_DISCRIMINATOR, encodeLeafChangeArgs(args)]),
+  });
+}
+
+export interface LeafSchema {
+  id: PublicKey;
+  owner: PublicKey;
+  delegate: PublicKey;
+  nonce: number;
+  dataHash: Buffer;
+  creatorHash: Buffer;
+}
+
+// Leaf schema version byte prepended to the hashed fields (LeafSchema::V1)
+const LEAF_SCHEMA_V1_VERSION = 1;
+
+// Asset ID of the leaf minted at `nonce`; Bubblegum nonces equal the leaf index
+export function getAssetId(merkleTree: PublicKey, nonce: number | bigint): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('asset'), merkleTree.toBuffer(), encodeU64(nonce)],
+    BUBBLEGUM_PROGRAM_ID
+  )[0];
+}
+
+// keccak(keccak(metadata args) || seller fee basis points), as hashed by hash_metadata
+export function hashMetadataData(metadata: MetadataArgs): Buffer {
+  return keccak256(keccak256(serializeMetadataArgs(metadata)), encodeU16(metadata.sellerFeeBasisPoints));
+}
+
+// keccak of every creator's address, verified flag and share, in order
+export function hashCreators(creators: Creator[]): Buffer {
+  return keccak256(
+    ...creators.map((creator) =>
+      Buffer.concat([creator.address.toBuffer(), encodeBool(creator.verified), encodeU8(creator.share)])
+    )
+  );
+}
+
+// Leaf schema a mint with these arguments produces at `nonce`
+export function getLeafSchema(
+  merkleTree: PublicKey,
+  nonce: number,
+  owner: PublicKey,
+  delegate: PublicKey,
+  metadata: MetadataArgs
+): LeafSchema {
+  return {
+    id: getAssetId(merkleTree, nonce),
+    owner,
+    delegate,
+    nonce,
+    dataHash: hashMetadataData(metadata),
+    creatorHash: hashCreators(metadata.creators)
+  };
+}
+
+// The 32-byte node stored in the tree for a leaf schema
+export function hashLeaf(leaf: LeafSchema): Buffer {
+  return keccak256(
+    encodeU8(LEAF_SCHEMA_V1_VERSION),
+    leaf.id.toBuffer(),
+    leaf.owner.toBuffer(),
+    leaf.delegate.toBuffer(),
+    encodeU64(leaf.nonce),
+    leaf.dataHash,
+    leaf.creatorHash
+  );
+}
+
+// AccountCompressionEvent::ApplicationData(ApplicationDataEvent::V1) wrapping Bubblegum's
+// LeafSchemaEvent { event_type: LeafSchemaEvent, version: V1, schema: LeafSchema::V1, leaf_hash }
+const APPLICATION_DATA_EVENT_TAG = 1;
+const LEAF_SCHEMA_EVENT_TYPE = 1;
+
+// Decode the leaf schema Bubblegum logs through the noop program, or null for other noop events
+export function parseLeafSchemaEvent(data: Buffer): LeafSchema | null {
+  if (data.length < 6 || data[0] !== APPLICATION_DATA_EVENT_TAG || data[1] !== 0) {
+    return null;
+  }
+
+  const event = data.subarray(6, 6 + data.readUInt32LE(2));
+  // event_type, version and the LeafSchema::V1 tag precede the schema fields
+  if (event.length < 3 + 32 * 3 + 8 + 32 * 2 || event[0] !== LEAF_SCHEMA_EVENT_TYPE || event[2] !== 0) {
+    return null;
+  }
+
+  return {
+    id: new PublicKey(event.subarray(3, 35)),
+    owner: new PublicKey(event.subarray(35, 67)),
+    delegate: new PublicKey(event.subarray(67, 99)),
+    nonce: Number(event.readBigUInt64LE(99)),
+    dataHash: Buffer.from(event.subarray(107, 139)),
+    creatorHash: Buffer.from(event.subarray(139, 171))
+  };
+}
+
+export interface ChangeLogEvent {
+  treeId: PublicKey;
+  // Leaf first, root last, each with its node index in the tree
+  path: { node: Buffer; index: number }[];
+  seq: number;
+  // Index of the changed leaf
+  index: number;
+}
+
+// AccountCompressionEvent::ChangeLog(ChangeLogEvent::V1)
+const CHANGE_LOG_EVENT_TAG = 0;
+const PATH_NODE_SIZE = 36;
+
+// Decode the change the compression program logs for every tree update, or null for other noop events
+export function parseChangeLogEvent(data: Buffer): ChangeLogEvent | null {
+  if (data.length < 38 || data[0] !== CHANGE_LOG_EVENT_TAG || data[1] !== 0) {
+    return null;
+  }
+
+  const pathLength = data.readUInt32LE(34);
+  const pathEnd = 38 + pathLength * PATH_NODE_SIZE;
+  if (data.length < pathEnd + 12) {
+    return null;
+  }
+
+  const path = Array.from({ length: pathLength }, (_, i) => {
+    const offset = 38 + i * PATH_NODE_SIZE;
+    return {
+      node: Buffer.from(data.subarray(offset, offset + 32)),
+      index: data.readUInt32LE(offset + 32)
+    };
+  });
+
+  return {
+    treeId: new PublicKey(data.subarray(2, 34)),
+    path,
+    seq: Number(data.readBigUInt64LE(pathEnd)),
+    index: data.readUInt32LE(pathEnd + 8)
+  };
+}
+
+// Collect the data of every noop instruction a transaction invoked
+export function getNoopEventData(transaction: VersionedTransactionResponse): Buffer[] {
+  const accountKeys = transaction.transaction.message.getAccountKeys({
+    accountKeysFromLookups: transaction.meta?.loadedAddresses
+  });
+
+  return (transaction.meta?.innerInstructions ?? [])
+    .flatMap((inner) => inner.instructions)
+    .filter((instruction) => accountKeys.get(instruction.programIdIndex)?.equals(SPL_NOOP_PROGRAM_ID))
+    .map((instruction) => Buffer.from(bs58.decode(instruction.data)));
+}
+
+// Leaf schemas emitted by the mints (or other leaf changes) of a confirmed transaction
+export async function getLeafSchemasFromTransaction(
+  connection: Connection,
+  signature: string
+): Promise<LeafSchema[]> {
+  const transaction = await connection.getTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0
+  });
+  if (!transaction) {
+    throw new Error(`Transaction ${signature} not found`);
+  }
+
+  return getNoopEventData(transaction)
+    .map(parseLeafSchemaEvent)
+    .filter((leaf): leaf is LeafSchema => leaf !== null);
+}
@@ -0,0 +1,84 @@
+import { clusterApiUrl, Connection } from '@solana/web3.js';
+import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
+import { classifyError } from './errors';
+
+// 'localnet' covers any cluster whose genesis hash is not one of the public ones
+export type Cluster = 'mainnet' | 'devnet' | 'testnet' | 'localnet';
+
+export const GENESIS_HASHES: Record<string, Cluster> = {
+  '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d': 'mainnet',
+  'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG': 'devnet',
+  '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY': 'testnet'
+};
+
+export interface ClusterInfo {
+  cluster: Cluster;
+  genesisHash: string;
+}
+
+// The genesis hash of an endpoint never changes, so one lookup per endpoint is enough
+const clusterCache = new Map<string, Promise<ClusterInfo>>();
+
+export function detectCluster(connection: Connection): Promise<ClusterInfo> {
+  const endpoint = connection.rpcEndpoint;
+  let info = clusterCache.get(endpoint);
+  if (!info) {
+    info = connection.getGenesisHash().then(
+      (genesisHash) => ({ cluster: GENESIS_HASHES[genesisHash] ?? 'localnet', genesisHash }),
+      (error) => {
+        // Don't keep failed lookups around
+        clusterCache.delete(endpoint);
+        throw classifyError(error, { action: 'detect cluster' });
+      }
+    );
+    clusterCache.set(endpoint, info);
+  }
+  return info;
+}
+
+export function getClusterLabel(cluster: string): string {
+  return cluster === 'localnet' ? 'LOCALNET/UNKNOWN' : cluster.toUpperCase();
+}
+
+export function walletNetworkToCluster(network: WalletAdapterNetwork): Cluster {
+  switch (network) {
+    case WalletAdapterNetwork.Mainnet:
+      return 'mainnet';
+    case WalletAdapterNetwork.Testnet:
+      return 'testnet';
+    case WalletAdapterNetwork.Devnet:
+      return 'devnet';
+  }
+}
+
+export function clusterToWalletNetwork(cluster: string): WalletAdapterNetwork | null {
+  switch (cluster) {
+    case 'mainnet':
+      return WalletAdapterNetwork.Mainnet;
+    case 'testnet':
+      return WalletAdapterNetwork.Testnet;
+    case 'devnet':
+      return WalletAdapterNetwork.Devnet;
+    default:
+      return null;
+  }
+}
+
+// Solana's public RPC for a cluster, e.g. as a reference to compare another endpoint against
+export function getPublicEndpoint(cluster: string): string | null {
+  switch (cluster) {
+    case 'mainnet':
+      return clusterApiUrl('mainnet-beta');
+    case 'devnet':
+    case 'testnet':
+      return clusterApiUrl(cluster);
+    default:
+      return null;
+  }
+}
+
+// Explorer link for an address or signature; custom clusters point the explorer at its localhost default
+export function getExplorerUrl(kind: 'address' | 'tx', value: string, cluster: string): string {
+  const query = cluster === 'mainnet' ? '' : cluster === 'localnet' ? '?cluster=custom' : `?cluster=${cluster}`;
+  return `https://explorer.solana.com/${kind}/${value}${query}`;
+}
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { MerkleTree, emptyNode as referenceEmptyNode, hash as referenceHash } from '@solana/spl-account-compression';
+import { computeRootFromProof, ConcurrentMerkleTree, emptyNode, hashNodes } from './concurrent-merkle-tree';
+
+const MAX_DEPTH = 8;
+const MAX_BUFFER_SIZE = 8;
+const CANOPY_DEPTH = 3;
+
+const leaf = (label: string) => createHash('sha256').update(label).digest();
+const hex = (nodes: Buffer[]) => nodes.map((node) => node.toString('hex'));
+
+// The same leaves in the model and in the reference tree
+function buildTrees(count: number) {
+  const leaves = Array.from({ length: count }, (_, i) => leaf(`leaf ${i}`));
+  return {
+    leaves,
+    tree: ConcurrentMerkleTree.fromLeaves(MAX_DEPTH, MAX_BUFFER_SIZE, leaves, CANOPY_DEPTH),
+    reference: MerkleTree.sparseMerkleTreeFromLeaves(leaves, MAX_DEPTH)
+  };
+}
+
+describe('ConcurrentMerkleTree', () => {
+  it('hashes like spl-account-compression', () => {
+    expect(hashNodes(leaf('a'), leaf('b')).equals(referenceHash(leaf('a'), leaf('b')))).toBe(true);
+    for (let level = 0; level <= 30; level++) {
+      expect(emptyNode(level).equals(referenceEmptyNode(level))).toBe(true);
+    }
+  });
+
+  it('starts from the empty root', () => {
+    const tree = new ConcurrentMerkleTree(MAX_DEPTH, MAX_BUFFER_SIZE, CANOPY_DEPTH);
+    expect(tree.root.equals(MerkleTree.sparseMerkleTreeFromLeaves([], MAX_DEPTH).root)).toBe(true);
+    expect(tree.changeLogs).toHaveLength(1);
+  });
+
+  it('matches the reference root after every append', () => {
+    const tree = new ConcurrentMerkleTree(MAX_DEPTH, MAX_BUFFER_SIZE, CANOPY_DEPTH);
+    const reference = MerkleTree.sparseMerkleTreeFromLeaves([], MAX_DEPTH);
+    for (let i = 0; i < 40; i++) {
+      const next = leaf(`leaf ${i}`);
+      expect(tree.append(next)).toBe(i);
+      reference.updateLeaf(i, next);
+      expect(tree.root.equals(reference.root), `after appending leaf ${i}`).toBe(true);
+    }
+    expect(tree.rightmostIndex).toBe(40);
+    expect(tree.sequenceNumber).toBe(40);
+  });
+
+  it('matches the reference root after replacing leaves', () => {
+    const { tree, reference } = buildTrees(20);
+    for (const index of [0, 7, 19, 7]) {
+      const next = leaf(`replacement ${index} ${tree.sequenceNumber}`);
+      tree.replace(index, next);
+      reference.updateLeaf(index, next);
+      expect(tree.root.equals(reference.root), `after replacing leaf ${index}`).toBe(true);
+      expect(tree.getLeaf(index).equals(next)).toBe(true);
+    }
+    expect(() => tree.replace(20, leaf('too far'))).toThrow(/has not been appended/);
+  });
+
+  it('keeps only the most recent changes in the changelog', () => {
+    const { tree } = buildTrees(12);
+    expect(tree.changeLogs).toHaveLength(MAX_BUFFER_SIZE);
+    expect(tree.changeLogs.map((changeLog) => changeLog.index)).toEqual([4, 5, 6, 7, 8, 9, 10, 11]);
+    expect(tree.changeLogs[MAX_BUFFER_SIZE - 1].root.equals(tree.root)).toBe(true);
+  });
+
+  it('returns the reference proof, trimmed by the canopy', () => {
+    const { tree, reference } = buildTrees(37);
+    for (const index of [0, 1, 18, 36, 37, 255]) {
+      const full = reference.getProof(index).proof;
+      expect(hex(tree.getProof(index, 0)), `full proof for leaf ${index}`).toEqual(hex(full));
+      expect(hex(tree.getProof(index))).toEqual(hex(full.slice(0, MAX_DEPTH - CANOPY_DEPTH)));
+      expect(hex(tree.getProof(index))).toEqual(hex(reference.getProof(index, true, MAX_DEPTH - CANOPY_DEPTH).proof));
+    }
+  });
+
+  it('lays out the canopy breadth-first below the root', () => {
+    const { tree, reference } = buildTrees(37);
+    const expected: Buffer[] = [];
+    for (let depth = 1; depth <= CANOPY_DEPTH; depth++) {
+      const level = MAX_DEPTH - depth;
+      for (let index = 0; index < 1 << depth; index++) {
+        // Walk up from the first leaf under the node
+        let node = reference.leaves[index << level];
+        for (let i = 0; i < level; i++) {
+          node = node.parent!;
+        }
+        expected.push(node.node);
+      }
+    }
+    expect(hex(tree.getCanopy())).toEqual(hex(expected));
+  });
+
+  it('computes the root from a proof like the reference', () => {
+    const { leaves, reference } = buildTrees(37);
+    for (const index of [0, 5, 36]) {
+      const proof = reference.getProof(index);
+      const root = computeRootFromProof(leaves[index], index, proof.proof);
+      expect(root.equals(reference.root)).toBe(true);
+      expect(root.equals(MerkleTree.hashProof(proof))).toBe(true);
+    }
+    // The wrong index puts siblings on the wrong side
+    expect(computeRootFromProof(leaves[5], 4, reference.getProof(5).proof).equals(reference.root)).toBe(false);
+  });
+
+  it('fast-forwards a proof that is several changes behind', () => {
+    const { tree, reference } = buildTrees(30);
+    const index = 12;
+    const staleRoot = Buffer.from(tree.root);
+    const staleProof = reference.getProof(index).proof.map((node) => Buffer.from(node));
+
+    // Changes land after the proof was fetched, some sharing most of its path
+    const changes: [number, Buffer][] = [[13, leaf('a')], [0, leaf('b')], [15, leaf('c')]];
+    for (const [changed, next] of changes) {
+      tree.replace(changed, next);
+      reference.updateLeaf(changed, next);
+    }
+    reference.updateLeaf(tree.append(leaf('d')), leaf('d'));
+    expect(tree.root.equals(staleRoot)).toBe(false);
+
+    const newLeaf = leaf('new leaf 12');
+    tree.replaceLeaf({ root: staleRoot, previousLeaf: leaf('leaf 12'), newLeaf, proof: staleProof, index });
+    reference.updateLeaf(index, newLeaf);
+    expect(tree.root.equals(reference.root)).toBe(true);
+  });
+
+  it('rejects a stale proof for a leaf that changed since', () => {
+    const { tree, reference } = buildTrees(30);
+    const staleRoot = Buffer.from(tree.root);
+    const staleProof = reference.getProof(12).proof;
+    tree.replace(12, leaf('changed'));
+    expect(() =>
+      tree.replaceLeaf({ root: staleRoot, previousLeaf: leaf('leaf 12'), newLeaf: leaf('x'), proof: staleProof, index: 12 })
+    ).toThrow(/modified since/);
+  });
+
+  it('rejects a proof whose root has left the changelog', () => {
+    const { tree, reference } = buildTrees(30);
+    const staleRoot = Buffer.from(tree.root);
+    const staleProof = reference.getProof(3).proof;
+    for (let i = 0; i < MAX_BUFFER_SIZE; i++) {
+      tree.append(leaf(`later ${i}`));
+    }
+    expect(() =>
+      tree.replaceLeaf({ root: staleRoot, previousLeaf: leaf('leaf 3'), newLeaf: leaf('x'), proof: staleProof, index: 3 })
+    ).toThrow(/no longer in the changelog/);
+  });
+
+  it('rejects a proof for the wrong previous leaf', () => {
+    const { tree, reference } = buildTrees(30);
+    expect(() =>
+      tree.replaceLeaf({ root: tree.root, previousLeaf: leaf('other'), newLeaf: leaf('x'), proof: reference.getProof(3).proof, index: 3 })
+    ).toThrow(/Invalid proof/);
+  });
+});
@@ -0,0 +1,226 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { Buffer } from 'buffer';
+import type { ChangeLog } from './merkle-tree';
+
+// Off-chain model of spl-account-compression's ConcurrentMerkleTree. Hashing, empty nodes,
+// the changelog buffer and proof fast-forwarding follow the on-chain program, so roots and
+// proofs computed here can be checked against getTreeInfo and used in Bubblegum instructions.
+
+const NODE_SIZE = 32;
+
+export function keccak256(...parts: Uint8Array[]): Buffer {
+  const hasher = keccak_256.create();
+  parts.forEach((part) => hasher.update(part));
+  return Buffer.from(hasher.digest());
+}
+
+export function hashNodes(left: Uint8Array, right: Uint8Array): Buffer {
+  return keccak256(left, right);
+}
+
+// Empty leaves are all zeroes; an empty node at level n hashes two empty nodes of level n - 1
+const emptyNodes: Buffer[] = [Buffer.alloc(NODE_SIZE)];
+
+export function emptyNode(level: number): Buffer {
+  for (let i = emptyNodes.length; i <= level; i++) {
+    emptyNodes.push(hashNodes(emptyNodes[i - 1], emptyNodes[i - 1]));
+  }
+  return emptyNodes[level];
+}
+
+// Recompute the root from a leaf and its full proof (sibling at level 0 first)
+export function computeRootFromProof(leaf: Uint8Array, index: number, proof: Uint8Array[]): Buffer {
+  let node = Buffer.from(leaf);
+  proof.forEach((sibling, level) => {
+    node = (index >> level) & 1 ? hashNodes(sibling, node) : hashNodes(node, sibling);
+  });
+  return node;
+}
+
+// Highest bit where two leaf indexes differ: the level at which their paths join
+function getCritbitLevel(leftIndex: number, rightIndex: number): number {
+  return 31 - Math.clz32(leftIndex ^ rightIndex);
+}
+
+export interface ReplaceLeafArgs {
+  // Root the proof was generated against; must still be in the changelog buffer
+  root: Uint8Array;
+  previousLeaf: Uint8Array;
+  newLeaf: Uint8Array;
+  proof: Uint8Array[];
+  index: number;
+}
+
+export class ConcurrentMerkleTree {
+  readonly maxDepth: number;
+  readonly maxBufferSize: number;
+  readonly canopyDepth: number;
+  sequenceNumber = 0;
+  // Index of the next leaf to append
+  rightmostIndex = 0;
+  // Most recent changes, oldest first, capped at maxBufferSize
+  changeLogs: ChangeLog[];
+
+  // Non-empty nodes per level: level 0 holds leaves, level maxDepth the root
+  private nodes: Map<number, Buffer>[];
+
+  constructor(maxDepth: number, maxBufferSize: number, canopyDepth = 0) {
+    if (maxDepth < 1 || maxDepth > 30) {
+      throw new Error(`Unsupported max depth: ${maxDepth}`);
+    }
+    if (canopyDepth < 0 || canopyDepth >= maxDepth) {
+      throw new Error('Canopy depth must be less than max depth');
+    }
+
+    this.maxDepth = maxDepth;
+    this.maxBufferSize = maxBufferSize;
+    this.canopyDepth = canopyDepth;
+    this.nodes = Array.from({ length: maxDepth + 1 }, () => new Map<number, Buffer>());
+
+    // Like initialize_empty_merkle_tree: one changelog entry for the empty root
+    this.changeLogs = [{
+      root: emptyNode(maxDepth),
+      pathNodes: Array.from({ length: maxDepth }, (_, level) => emptyNode(level)),
+      index: 0
+    }];
+  }
+
+  static fromLeaves(maxDepth: number, maxBufferSize: number, leaves: Uint8Array[], canopyDepth = 0): ConcurrentMerkleTree {
+    const tree = new ConcurrentMerkleTree(maxDepth, maxBufferSize, canopyDepth);
+    leaves.forEach((leaf) => tree.append(leaf));
+    return tree;
+  }
+
+  get capacity(): number {
+    return Math.pow(2, this.maxDepth);
+  }
+
+  get root(): Buffer {
+    return this.getNode(this.maxDepth, 0);
+  }
+
+  getNode(level: number, index: number): Buffer {
+    return this.nodes[level].get(index) ?? emptyNode(level);
+  }
+
+  getLeaf(index: number): Buffer {
+    this.assertIndex(index);
+    return this.getNode(0, index);
+  }
+
+  // Full proof for a leaf, trimmed by the canopy depth unless told otherwise
+  getProof(index: number, canopyDepth = this.canopyDepth): Buffer[] {
+    this.assertIndex(index);
+    return Array.from({ length: this.maxDepth - canopyDepth }, (_, level) =>
+      this.getNode(level, (index >> level) ^ 1)
+    );
+  }
+
+  // Canopy nodes in the on-chain layout: breadth-first from the level below the root
+  getCanopy(): Buffer[] {
+    const canopy: Buffer[] = [];
+    for (let depth = 1; depth <= this.canopyDepth; depth++) {
+      const level = this.maxDepth - depth;
+      for (let index = 0; index < 1 << depth; index++) {
+        canopy.push(this.getNode(level, index));
+      }
+    }
+    return canopy;
+  }
+
+  append(leaf: Uint8Array): number {
+    if (this.rightmostIndex >= this.capacity) {
+      throw new Error('Tree is full');
+    }
+
+    const index = this.rightmostIndex;
+    this.applyChange(index, leaf);
+    this.rightmostIndex++;
+    return index;
+  }
+
+  // Overwrite a leaf directly, e.g. when replaying known changes
+  replace(index: number, newLeaf: Uint8Array) {
+    this.assertIndex(index);
+    if (index >= this.rightmostIndex) {
+      throw new Error(`Leaf ${index} has not been appended yet`);
+    }
+    this.applyChange(index, newLeaf);
+  }
+
+  // Replace a leaf the way the program does for a transaction built against an older root:
+  // fast-forward the proof through every change since that root, then verify and apply
+  replaceLeaf({ root, previousLeaf, newLeaf, proof, index }: ReplaceLeafArgs) {
+    this.assertIndex(index);
+    if (proof.length !== this.maxDepth) {
+      throw new Error(`Expected a full proof of ${this.maxDepth} nodes, got ${proof.length}`);
+    }
+
+    const rootBuffer = Buffer.from(root);
+    // Search newest first: the same root can only repeat if a change was undone
+    let changeLogIndex = -1;
+    for (let i = this.changeLogs.length - 1; i >= 0; i--) {
+      if (this.changeLogs[i].root.equals(rootBuffer)) {
+        changeLogIndex = i;
+        break;
+      }
+    }
+    if (changeLogIndex === -1) {
+      throw new Error('Root is no longer in the changelog buffer');
+    }
+
+    const updatedProof = this.fastForwardProof(proof, index, changeLogIndex);
+    if (!updatedProof) {
+      throw new Error('Leaf was modified since the proof was generated');
+    }
+    if (!computeRootFromProof(previousLeaf, index, updatedProof).equals(this.root)) {
+      throw new Error('Invalid proof for the previous leaf');
+    }
+
+    this.applyChange(index, newLeaf);
+  }
+
+  // Patch a proof generated at changelog entry `changeLogIndex` so it is valid for the current root.
+  // Returns null when the leaf itself changed in between.
+  fastForwardProof(proof: Uint8Array[], index: number, changeLogIndex: number): Buffer[] | null {
+    const updatedProof = proof.map((node) => Buffer.from(node));
+
+    for (let i = changeLogIndex + 1; i < this.changeLogs.length; i++) {
+      const changeLog = this.changeLogs[i];
+      if (changeLog.index === index) {
+        return null;
+      }
+      const critbitLevel = getCritbitLevel(index, changeLog.index);
+      updatedProof[critbitLevel] = changeLog.pathNodes[critbitLevel];
+    }
+
+    return updatedProof;
+  }
+
+  private applyChange(index: number, leaf: Uint8Array) {
+    const pathNodes: Buffer[] = [];
+    let node = Buffer.from(leaf);
+
+    for (let level = 0; level < this.maxDepth; level++) {
+      const levelIndex = index >> level;
+      this.nodes[level].set(levelIndex, node);
+      pathNodes.push(node);
+
+      const sibling = this.getNode(level, levelIndex ^ 1);
+      node = levelIndex & 1 ? hashNodes(sibling, node) : hashNodes(node, sibling);
+    }
+    this.nodes[this.maxDepth].set(0, node);
+
+    this.changeLogs.push({ root: node, pathNodes, index });
+    if (this.changeLogs.length > this.maxBufferSize) {
+      this.changeLogs.shift();
+    }
+    this.sequenceNumber++;
+  }
+
+  private assertIndex(index: number) {
+    if (!Number.isInteger(index) || index < 0 || index >= this.capacity) {
+      throw new Error(`Leaf index ${index} is out of range for a tree of depth ${this.maxDepth}`);
+    }
+  }
+}
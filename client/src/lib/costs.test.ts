@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Connection } from '@solana/web3.js';
+import { getCostTable, MAX_ACCOUNT_SIZE } from './costs';
+import { InvalidConfig } from './errors';
+import { ALL_DEPTH_SIZE_PAIRS, getConcurrentMerkleTreeAccountSize, MAX_CANOPY_DEPTH } from './merkle-tree';
+
+// Rent is cached per endpoint, so every connection gets its own
+let endpoints = 0;
+
+function fakeConnection(rent: (space: number) => Promise<number>): Connection {
+  return { rpcEndpoint: `http://rent-${endpoints++}`, getMinimumBalanceForRentExemption: rent } as unknown as Connection;
+}
+
+const connection = () => fakeConnection(async (space) => space * 10);
+
+describe('getCostTable', () => {
+  it('prices every pair with a canopy covering half the tree by default', async () => {
+    const rows = await getCostTable(connection());
+    expect(rows.map((row) => [row.maxDepth, row.maxBufferSize])).toEqual(ALL_DEPTH_SIZE_PAIRS);
+    for (const row of rows) {
+      expect(row.canopyDepth).toBe(Math.floor(row.maxDepth / 2));
+      expect(row.accountSize).toBe(getConcurrentMerkleTreeAccountSize(row.maxDepth, row.maxBufferSize, row.canopyDepth));
+      expect(row.error).toBeNull();
+      expect(row.cost!.treeRentLamports).toBe(row.accountSize * 10);
+    }
+  });
+
+  it('sizes the canopy to the proof size and caps it at the deepest canopy', async () => {
+    const rows = await getCostTable(connection(), 3);
+    for (const row of rows) {
+      expect(row.canopyDepth).toBe(Math.min(MAX_CANOPY_DEPTH, Math.max(0, row.maxDepth - 3)));
+      expect(row.canopyDepth).toBeLessThan(row.maxDepth);
+    }
+    expect(rows.find((row) => row.maxDepth === 3)!.canopyDepth).toBe(0);
+    expect(rows.find((row) => row.maxDepth === 30)!.canopyDepth).toBe(MAX_CANOPY_DEPTH);
+  });
+
+  it('rejects proof sizes below one node', async () => {
+    for (const proofSize of [0, -1, 2.5]) {
+      await expect(getCostTable(connection(), proofSize)).rejects.toThrow(InvalidConfig);
+    }
+  });
+
+  it('reports rows it cannot price instead of failing the table', async () => {
+    const rows = await getCostTable(fakeConnection(() => Promise.reject(new Error('fetch failed'))), 1);
+    expect(rows.every((row) => row.cost === null)).toBe(true);
+    for (const row of rows) {
+      expect(row.error).toMatch(
+        row.accountSize > MAX_ACCOUNT_SIZE ? /exceeds the .* byte limit/ : /^Unable to fetch rent exemption: fetch failed/
+      );
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { Connection, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import {
+  ALL_DEPTH_SIZE_PAIRS,
+  getConcurrentMerkleTreeAccountSize,
+  MAX_CANOPY_DEPTH,
+  type MerkleTreeParams
+} from './merkle-tree';
+import { TREE_CONFIG_SIZE } from './bubblegum';
+import { InvalidConfig } from './errors';
+
+export const LAMPORTS_PER_SIGNATURE = 5000;
+// Tree creation is signed by the payer and the new tree keypair
+const CREATE_TREE_SIGNATURES = 2;
+// Largest account the runtime lets a program allocate (MAX_PERMITTED_DATA_LENGTH)
+export const MAX_ACCOUNT_SIZE = 10 * 1024 * 1024;
+
+export interface PriorityFee {
+  computeUnitLimit: number;
+  microLamportsPerComputeUnit: number;
+}
+
+export interface TreeCostBreakdown {
+  accountSize: number;
+  treeRentLamports: number;
+  treeConfigRentLamports: number;
+  transactionFeeLamports: number;
+  priorityFeeLamports: number;
+  totalLamports: number;
+}
+
+// Rent only depends on the account size, so one lookup per endpoint and size is enough
+const rentCache = new Map<string, Promise<number>>();
+
+export function getRentExemption(connection: Connection, space: number): Promise<number> {
+  const key = `${connection.rpcEndpoint}:${space}`;
+  let rent = rentCache.get(key);
+  if (!rent) {
+    rent = connection.getMinimumBalanceForRentExemption(space);
+    rentCache.set(key, rent);
+    // Don't keep failed lookups around
+    rent.catch(() => rentCache.delete(key));
+  }
+  return rent;
+}
+
+export function getPriorityFeeLamports(priorityFee?: PriorityFee): number {
+  if (!priorityFee) return 0;
+  return Math.ceil((priorityFee.computeUnitLimit * priorityFee.microLamportsPerComputeUnit) / 1_000_000);
+}
+
+export async function estimateTreeCost(
+  connection: Connection,
+  params: MerkleTreeParams,
+  priorityFee?: PriorityFee
+): Promise<TreeCostBreakdown> {
+  const { maxDepth, maxBufferSize, canopyDepth } = params;
+  const accountSize = getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, canopyDepth);
+
+  const [treeRentLamports, treeConfigRentLamports] = await Promise.all([
+    getRentExemption(connection, accountSize),
+    getRentExemption(connection, TREE_CONFIG_SIZE)
+  ]);
+  const transactionFeeLamports = CREATE_TREE_SIGNATURES * LAMPORTS_PER_SIGNATURE;
+  const priorityFeeLamports = getPriorityFeeLamports(priorityFee);
+
+  return {
+    accountSize,
+    treeRentLamports,
+    treeConfigRentLamports,
+    transactionFeeLamports,
+    priorityFeeLamports,
+    totalLamports: treeRentLamports + treeConfigRentLamports + transactionFeeLamports + priorityFeeLamports
+  };
+}
+
+export function formatSol(lamports: number): string {
+  return (lamports / LAMPORTS_PER_SOL).toLocaleString(undefined, { maximumFractionDigits: 9 });
+}
+
+export interface CostTableRow {
+  maxDepth: number;
+  maxBufferSize: number;
+  canopyDepth: number;
+  capacity: number;
+  accountSize: number;
+  // Null when the account is too large to allocate or the rent lookup failed
+  cost: TreeCostBreakdown | null;
+  error: string | null;
+}
+
+// Cost of every supported depth-size pair, with the canopy sized to fit proofSize proof nodes
+export async function getCostTable(connection: Connection, proofSize?: number): Promise<CostTableRow[]> {
+  // A proof of zero nodes would need the whole tree in the canopy
+  if (proofSize !== undefined && (!Number.isInteger(proofSize) || proofSize < 1)) {
+    throw new InvalidConfig(`Proof size must be a whole number of at least 1, got ${proofSize}`, 'proofSize');
+  }
+  const rows: CostTableRow[] = [];
+  // One pair at a time so public RPCs don't rate limit the rent lookups
+  for (let i = 0; i < ALL_DEPTH_SIZE_PAIRS.length; i++) {
+    const [maxDepth, maxBufferSize] = ALL_DEPTH_SIZE_PAIRS[i];
+    // Without a proof budget, default to a canopy covering half the tree
+    const canopyDepth = Math.min(
+      MAX_CANOPY_DEPTH,
+      proofSize !== undefined ? Math.max(0, maxDepth - proofSize) : Math.floor(maxDepth / 2)
+    );
+    const accountSize = getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, canopyDepth);
+    const row = { maxDepth, maxBufferSize, canopyDepth, capacity: Math.pow(2, maxDepth), accountSize };
+
+    // Accounts above the runtime's allocation limit cannot be created
+    if (accountSize > MAX_ACCOUNT_SIZE) {
+      rows.push({ ...row, cost: null, error: `Account size exceeds the ${MAX_ACCOUNT_SIZE} byte limit` });
+      continue;
+    }
+
+    try {
+      rows.push({ ...row, cost: await estimateTreeCost(connection, { maxDepth, maxBufferSize, canopyDepth }), error: null });
+    } catch (error) {
+      rows.push({ ...row, cost: null, error: `Unable to fetch rent exemption: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,197 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createDasClient, DasError, fetchAllPages, type DasAsset } from './das';
+
+interface JsonRpcRequest {
+  jsonrpc: string;
+  id: number;
+  method: string;
+  params: Record<string, unknown>;
+}
+
+type Handler = (request: JsonRpcRequest, res: ServerResponse) => void;
+
+// Local JSON-RPC server; each test installs the handler for the requests it makes
+let server: Server;
+let endpoint: string;
+let handler: Handler;
+let requests: JsonRpcRequest[];
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+const result = (request: JsonRpcRequest, value: unknown) => ({ jsonrpc: '2.0', id: request.id, result: value });
+
+const asset = (id: number): DasAsset => ({
+  id: `asset-${id}`,
+  interface: 'V1_NFT',
+  burnt: false,
+  compression: {
+    compressed: true,
+    tree: 'tree',
+    leaf_id: id,
+    seq: id + 1,
+    data_hash: 'data',
+    creator_hash: 'creator',
+    asset_hash: 'asset'
+  },
+  ownership: { owner: 'owner', delegate: null }
+});
+
+const ASSETS = Array.from({ length: 5 }, (_, i) => asset(i));
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const request = JSON.parse(await readBody(req)) as JsonRpcRequest;
+    requests.push(request);
+    handler(request, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  handler = (request, res) => send(res, 500, `No handler for ${request.method}`);
+});
+
+describe('createDasClient', () => {
+  it('sends JSON-RPC requests and returns the result', async () => {
+    handler = (request, res) => send(res, 200, result(request, asset(7)));
+
+    const client = createDasClient(endpoint);
+    await expect(client.getAsset('asset-7')).resolves.toEqual(asset(7));
+    await client.getAssetProof('asset-7');
+
+    expect(requests.map(({ jsonrpc, method, params }) => ({ jsonrpc, method, params }))).toEqual([
+      { jsonrpc: '2.0', method: 'getAsset', params: { id: 'asset-7' } },
+      { jsonrpc: '2.0', method: 'getAssetProof', params: { id: 'asset-7' } }
+    ]);
+    expect(requests[1].id).toBeGreaterThan(requests[0].id);
+  });
+
+  it('reads every page by page number', async () => {
+    handler = (request, res) => {
+      const { page, limit } = request.params as { page: number; limit: number };
+      const items = ASSETS.slice((page - 1) * limit, page * limit);
+      send(res, 200, result(request, { total: items.length, limit, page, items }));
+    };
+
+    const client = createDasClient(endpoint);
+    const progress: number[] = [];
+    const items = await fetchAllPages((options) => client.getAssetsByTree('tree', options), (all) => progress.push(all.length), 2);
+
+    expect(items).toEqual(ASSETS);
+    expect(progress).toEqual([2, 4, 5]);
+    expect(requests.map((request) => request.params)).toEqual([
+      { tree: 'tree', compressed: true, limit: 2, page: 1 },
+      { tree: 'tree', compressed: true, limit: 2, page: 2 },
+      { tree: 'tree', compressed: true, limit: 2, page: 3 }
+    ]);
+  });
+
+  it('stops on an empty page after a full one', async () => {
+    handler = (request, res) => {
+      const { page, limit } = request.params as { page: number; limit: number };
+      const items = ASSETS.slice(0, 4).slice((page - 1) * limit, page * limit);
+      send(res, 200, result(request, { total: items.length, limit, page, items }));
+    };
+
+    const client = createDasClient(endpoint);
+    const items = await fetchAllPages((options) => client.getAssetsByOwner('owner', options), undefined, 2);
+
+    expect(items).toHaveLength(4);
+    expect(requests.map((request) => request.params.page)).toEqual([1, 2, 3]);
+  });
+
+  it('follows cursors when the provider returns them', async () => {
+    const cursors = ['start', 'c1', 'c2'];
+    handler = (request, res) => {
+      const { cursor, limit } = request.params as { cursor?: string; limit: number };
+      const start = cursors.indexOf(cursor ?? 'start') * limit;
+      const items = ASSETS.slice(start, start + limit);
+      const next = cursors[cursors.indexOf(cursor ?? 'start') + 1];
+      send(res, 200, result(request, { total: items.length, limit, cursor: next, items }));
+    };
+
+    const client = createDasClient(endpoint);
+    const items = await fetchAllPages((options) => client.getAssetsByGroup('collection', 'mint', options), undefined, 2);
+
+    expect(items).toEqual(ASSETS);
+    expect(requests.map((request) => request.params)).toEqual([
+      { groupKey: 'collection', groupValue: 'mint', limit: 2, page: 1 },
+      { groupKey: 'collection', groupValue: 'mint', limit: 2, cursor: 'c1' },
+      { groupKey: 'collection', groupValue: 'mint', limit: 2, cursor: 'c2' }
+    ]);
+  });
+
+  it('surfaces JSON-RPC error objects with their code', async () => {
+    handler = (request, res) =>
+      send(res, 200, { jsonrpc: '2.0', id: request.id, error: { code: -32602, message: 'Invalid params: asset not found' } });
+
+    const error = await createDasClient(endpoint).getAsset('missing').catch((e) => e);
+    expect(error).toBeInstanceOf(DasError);
+    expect(error.method).toBe('getAsset');
+    expect(error.code).toBe(-32602);
+    expect(error.message).toBe('getAsset failed: Invalid params: asset not found');
+  });
+
+  it('surfaces rate limits and server errors with the HTTP status', async () => {
+    for (const status of [429, 500, 503]) {
+      handler = (_request, res) => send(res, status, { message: 'busy' });
+      const error = await createDasClient(endpoint).getAssetProof('asset-1').catch((e) => e);
+      expect(error).toBeInstanceOf(DasError);
+      expect(error.code).toBe(status);
+      expect(error.message).toMatch(new RegExp(`^getAssetProof failed: ${status} `));
+    }
+  });
+
+  it('rejects malformed payloads', async () => {
+    const client = createDasClient(endpoint);
+    const cases: [unknown, RegExp][] = [
+      ['<html>Bad gateway</html>', /not valid JSON/],
+      [[1, 2, 3], /not a JSON-RPC object/],
+      ['null', /not a JSON-RPC object/],
+      [{ jsonrpc: '2.0', id: 1 }, /Empty result/],
+      [{ jsonrpc: '2.0', id: 1, result: null }, /Empty result/]
+    ];
+    for (const [payload, message] of cases) {
+      handler = (_request, res) => send(res, 200, payload);
+      await expect(client.getAsset('asset-1')).rejects.toThrow(message);
+    }
+
+    for (const list of [{ total: 1, limit: 10 }, { total: 1, limit: 10, items: 'none' }, { limit: 10, items: [] }]) {
+      handler = (request, res) => send(res, 200, result(request, list));
+      const error = await client.getAssetsByTree('tree', { page: 1 }).catch((e) => e);
+      expect(error).toBeInstanceOf(DasError);
+      expect(error.message).toBe('searchAssets failed: Malformed asset list');
+    }
+  });
+
+  it('reports unreachable endpoints without an HTTP status', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const error = await createDasClient(`http://127.0.0.1:${port}`).getAsset('asset-1').catch((e) => e);
+    expect(error).toBeInstanceOf(DasError);
+    expect(error.code).toBeUndefined();
+  });
+});
@@ -0,0 +1,181 @@
+// Typed client for the Digital Asset Standard (DAS) read API served by indexing RPC providers
+
+export interface DasAsset {
+  id: string;
+  interface: string;
+  burnt: boolean;
+  compression: {
+    compressed: boolean;
+    tree: string;
+    leaf_id: number;
+    seq: number;
+    data_hash: string;
+    creator_hash: string;
+    asset_hash: string;
+  };
+  ownership: {
+    owner: string;
+    // Null when the owner is also the delegate
+    delegate: string | null;
+    frozen?: boolean;
+  };
+  grouping?: { group_key: string; group_value: string }[];
+  content?: {
+    metadata?: { name?: string; symbol?: string };
+    json_uri?: string;
+  };
+}
+
+export interface DasAssetProof {
+  root: string;
+  // Full proof from the leaf level up, not trimmed by the canopy
+  proof: string[];
+  node_index: number;
+  leaf: string;
+  tree_id: string;
+}
+
+export interface DasAssetList {
+  total: number;
+  limit: number;
+  // Providers answer with the page number or a cursor, depending on how the request paged
+  page?: number;
+  cursor?: string;
+  items: DasAsset[];
+}
+
+// Page-based paging is universal; cursors are faster on large result sets where supported
+export interface DasPageOptions {
+  limit?: number;
+  page?: number;
+  cursor?: string;
+}
+
+export interface DasSearchParams extends DasPageOptions {
+  tree?: string;
+  ownerAddress?: string;
+  creatorAddress?: string;
+  grouping?: [string, string];
+  compressed?: boolean;
+  burnt?: boolean;
+}
+
+export class DasError extends Error {
+  readonly method: string;
+  // HTTP status for transport failures, JSON-RPC error code for API errors
+  readonly code?: number;
+
+  constructor(method: string, message: string, code?: number) {
+    super(`${method} failed: ${message}`);
+    this.name = 'DasError';
+    this.method = method;
+    this.code = code;
+  }
+}
+
+export interface DasClientOptions {
+  // Swap in for a mock JSON-RPC server or a fetch with custom headers
+  fetch?: typeof fetch;
+}
+
+export interface DasClient {
+  getAsset(assetId: string): Promise<DasAsset>;
+  getAssetProof(assetId: string): Promise<DasAssetProof>;
+  getAssetsByGroup(groupKey: string, groupValue: string, options?: DasPageOptions): Promise<DasAssetList>;
+  getAssetsByOwner(ownerAddress: string, options?: DasPageOptions): Promise<DasAssetList>;
+  searchAssets(params: DasSearchParams): Promise<DasAssetList>;
+  // Compressed assets minted into one tree
+  getAssetsByTree(tree: string, options?: DasPageOptions): Promise<DasAssetList>;
+}
+
+export const DAS_MAX_PAGE_LIMIT = 1000;
+
+export function createDasClient(endpoint: string, options: DasClientOptions = {}): DasClient {
+  const fetchFn = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  let requestId = 0;
+
+  const request = async <T>(method: string, params: Record<string, unknown>): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetchFn(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params })
+      });
+    } catch (error) {
+      throw new DasError(method, error instanceof Error ? error.message : 'Network request failed');
+    }
+    if (!response.ok) {
+      throw new DasError(method, `${response.status} ${response.statusText}`, response.status);
+    }
+
+    let body: { result?: T; error?: { code?: number; message?: string } } | null;
+    try {
+      body = await response.json();
+    } catch {
+      throw new DasError(method, 'Response is not valid JSON');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new DasError(method, 'Response is not a JSON-RPC object');
+    }
+    if (body.error) {
+      throw new DasError(method, body.error.message ?? JSON.stringify(body.error), body.error.code);
+    }
+    if (body.result === undefined || body.result === null) {
+      throw new DasError(method, 'Empty result');
+    }
+    return body.result;
+  };
+
+  // Paging reads items and total, so a list without them is rejected here rather than failing later
+  const requestList = async (method: string, params: Record<string, unknown>): Promise<DasAssetList> => {
+    const list = await request<DasAssetList>(method, params);
+    if (!Array.isArray(list.items) || typeof list.total !== 'number') {
+      throw new DasError(method, 'Malformed asset list');
+    }
+    return list;
+  };
+
+  return {
+    getAsset: (assetId) => request<DasAsset>('getAsset', { id: assetId }),
+    getAssetProof: (assetId) => request<DasAssetProof>('getAssetProof', { id: assetId }),
+    getAssetsByGroup: (groupKey, groupValue, pageOptions = {}) =>
+      requestList('getAssetsByGroup', { groupKey, groupValue, ...pageOptions }),
+    getAssetsByOwner: (ownerAddress, pageOptions = {}) =>
+      requestList('getAssetsByOwner', { ownerAddress, ...pageOptions }),
+    searchAssets: (params) => requestList('searchAssets', { ...params }),
+    getAssetsByTree: (tree, pageOptions = {}) =>
+      requestList('searchAssets', { tree, compressed: true, ...pageOptions })
+  };
+}
+
+// Where to continue after a page, or null once the last page was read
+export function getNextPage(list: DasAssetList, previous: DasPageOptions): DasPageOptions | null {
+  const limit = previous.limit ?? list.limit;
+  if (list.items.length === 0 || list.items.length < limit) {
+    return null;
+  }
+  if (list.cursor) {
+    return { limit, cursor: list.cursor };
+  }
+  return { limit, page: (list.page ?? previous.page ?? 1) + 1 };
+}
+
+// Read every page of a listing, reporting progress after each one
+export async function fetchAllPages(
+  fetchPage: (options: DasPageOptions) => Promise<DasAssetList>,
+  onPage?: (items: DasAsset[], total: number) => void,
+  limit = DAS_MAX_PAGE_LIMIT
+): Promise<DasAsset[]> {
+  const items: DasAsset[] = [];
+  let options: DasPageOptions | null = { limit, page: 1 };
+
+  while (options) {
+    const list = await fetchPage(options);
+    items.push(...list.items);
+    onPage?.(items, list.total);
+    options = getNextPage(list, options);
+  }
+
+  return items;
+}
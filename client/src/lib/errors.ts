@@ -0,0 +1,240 @@
+import {
+  PublicKey,
+  SendTransactionError,
+  TransactionExpiredBlockheightExceededError,
+  type TransactionError
+} from '@solana/web3.js';
+import { formatSol } from './costs';
+import { decodeTransactionError, formatTransactionError, type DecodedTransactionError } from './program-errors';
+
+export interface SoltreeErrorOptions {
+  cause?: unknown;
+  logs?: string[];
+}
+
+// Base class for every classified failure; branch on the subclass, not the message
+export class SoltreeError extends Error {
+  readonly cause?: unknown;
+  readonly logs: string[];
+
+  constructor(message: string, options: SoltreeErrorOptions = {}) {
+    super(message);
+    this.name = 'SoltreeError';
+    this.cause = options.cause;
+    this.logs = options.logs ?? [];
+  }
+}
+
+// The RPC answered 401 or 403, usually a missing or wrong API key
+export class RpcAuthError extends SoltreeError {
+  constructor(readonly status: number, message: string, options: SoltreeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'RpcAuthError';
+  }
+}
+
+export class RpcUnreachable extends SoltreeError {
+  constructor(message: string, options: SoltreeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'RpcUnreachable';
+  }
+}
+
+export class InsufficientFunds extends SoltreeError {
+  constructor(
+    message: string,
+    // Known when the shortfall was measured, e.g. by a preflight
+    readonly requiredLamports: number | null = null,
+    readonly balanceLamports: number | null = null,
+    options: SoltreeErrorOptions = {}
+  ) {
+    super(message, options);
+    this.name = 'InsufficientFunds';
+  }
+}
+
+export class BlockhashExpired extends SoltreeError {
+  constructor(message: string, options: SoltreeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'BlockhashExpired';
+  }
+}
+
+// A sent transaction outlived its blockhash without landing; it can no longer be processed
+export class TransactionExpired extends BlockhashExpired {
+  constructor(message: string, readonly signature: string, options: SoltreeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TransactionExpired';
+  }
+}
+
+export class UserRejected extends SoltreeError {
+  constructor(message: string, options: SoltreeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'UserRejected';
+  }
+}
+
+// An instruction failed; decoded carries the program, instruction and error code
+export class ProgramError extends SoltreeError {
+  constructor(readonly decoded: DecodedTransactionError, options: SoltreeErrorOptions = {}) {
+    super(formatTransactionError(decoded), options);
+    this.name = 'ProgramError';
+  }
+
+  get code(): number | null {
+    return this.decoded.code;
+  }
+}
+
+export class InvalidConfig extends SoltreeError {
+  constructor(message: string, readonly field: string | null = null, options: SoltreeErrorOptions = {}) {
+    super(message, options);
+    this.name = 'InvalidConfig';
+  }
+}
+
+export interface ClassifyContext {
+  // What was being attempted, used for errors that fit no class, e.g. 'create Merkle tree'
+  action?: string;
+  // Program of each instruction in the failed transaction, to decode custom error codes
+  programIds?: PublicKey[];
+  logs?: string[];
+}
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Map a decoded simulation or confirmation error onto the taxonomy
+export function fromTransactionError(
+  error: TransactionError,
+  programIds: PublicKey[],
+  logs: string[] = [],
+  cause: unknown = error
+): SoltreeError {
+  const decoded = decodeTransactionError(error, programIds, logs);
+  if (!decoded) {
+    return new SoltreeError('Transaction failed', { cause, logs });
+  }
+  switch (decoded.name) {
+    case 'InsufficientFundsForFee':
+    case 'InsufficientFundsForRent':
+    case 'ResultWithNegativeLamports':
+    case 'AccountNotFound':
+      return new InsufficientFunds(decoded.message, null, null, { cause, logs });
+    case 'BlockhashNotFound':
+      return new BlockhashExpired(decoded.message, { cause, logs });
+    default:
+      return new ProgramError(decoded, { cause, logs });
+  }
+}
+
+// RPC preflight failures only keep the runtime's message, e.g.
+// "Transaction simulation failed: Error processing Instruction 1: custom program error: 0x1770"
+function parsePreflightMessage(
+  message: string,
+  programIds: PublicKey[],
+  logs: string[],
+  cause: unknown
+): SoltreeError | null {
+  const custom = message.match(/Error processing Instruction (\d+): custom program error: 0x([0-9a-f]+)/i);
+  if (custom) {
+    return fromTransactionError(
+      { InstructionError: [Number(custom[1]), { Custom: parseInt(custom[2], 16) }] },
+      programIds,
+      logs,
+      cause
+    );
+  }
+  if (/Attempt to debit an account but found no record of a prior credit|insufficient (lamports|funds)/i.test(message)) {
+    return new InsufficientFunds('The fee payer does not have enough SOL', null, null, { cause, logs });
+  }
+  if (/Blockhash not found/i.test(message)) {
+    return new BlockhashExpired('The transaction blockhash has expired', { cause, logs });
+  }
+  return null;
+}
+
+// The single place raw errors from web3.js, fetch and wallet adapters are turned into typed ones
+export function classifyError(error: unknown, context: ClassifyContext = {}): SoltreeError {
+  if (error instanceof SoltreeError) {
+    return error;
+  }
+
+  const message = messageOf(error);
+  const programIds = context.programIds ?? [];
+  let logs = context.logs ?? [];
+
+  if (error instanceof TransactionExpiredBlockheightExceededError) {
+    return new BlockhashExpired('The transaction expired before it was confirmed', { cause: error, logs });
+  }
+
+  if (error instanceof SendTransactionError) {
+    logs = error.logs ?? logs;
+    const parsed = parsePreflightMessage(error.transactionError.message, programIds, logs, error);
+    if (parsed) {
+      return parsed;
+    }
+  }
+
+  // Wallet adapters report a declined prompt as WalletSignTransactionError, Phantom and others with code 4001
+  if (
+    (error as { code?: number } | null)?.code === 4001 ||
+    /user rejected|rejected the request|request rejected|user denied|declined/i.test(message)
+  ) {
+    return new UserRejected('The request was rejected in the wallet', { cause: error, logs });
+  }
+
+  // web3.js surfaces HTTP failures as "<status> <statusText>: <body>"
+  const status = message.match(/^(?:[\w ]+: )?(\d{3}) /);
+  if (status && (status[1] === '401' || status[1] === '403')) {
+    return new RpcAuthError(Number(status[1]), message, { cause: error, logs });
+  }
+  if (status && status[1] === '400') {
+    return new InvalidConfig(message, 'rpcEndpoint', { cause: error, logs });
+  }
+  if (/Endpoint URL must start with|Invalid URL/i.test(message)) {
+    return new InvalidConfig(message, 'rpcEndpoint', { cause: error, logs });
+  }
+  if (/failed to fetch|fetch failed|NetworkError|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|Load failed/i.test(message)) {
+    return new RpcUnreachable(message, { cause: error, logs });
+  }
+
+  const parsed = parsePreflightMessage(message, programIds, logs, error);
+  if (parsed) {
+    return parsed;
+  }
+
+  return new SoltreeError(context.action ? `Failed to ${context.action}: ${message}` : message, { cause: error, logs });
+}
+
+// User-facing text for any error, classified or not
+export function describeError(error: unknown): string {
+  const classified = classifyError(error);
+
+  if (classified instanceof RpcAuthError) {
+    return classified.status === 401
+      ? '401 Unauthorized - check your API key format'
+      : '403 Forbidden - API key may be invalid or missing permissions';
+  }
+  if (classified instanceof RpcUnreachable) {
+    return 'Network connection failed - check internet or URL';
+  }
+  if (classified instanceof InvalidConfig) {
+    return classified.field === 'rpcEndpoint' ? 'Invalid RPC request - check the RPC URL format' : classified.message;
+  }
+  if (classified instanceof InsufficientFunds) {
+    return classified.requiredLamports !== null && classified.balanceLamports !== null
+      ? `Insufficient SOL - need ${formatSol(classified.requiredLamports)} SOL, wallet has ${formatSol(classified.balanceLamports)} SOL`
+      : 'Insufficient SOL balance for this transaction';
+  }
+  if (classified instanceof BlockhashExpired) {
+    return 'Transaction expired - please try again';
+  }
+  if (classified instanceof UserRejected) {
+    return 'Transaction was rejected in wallet';
+  }
+  if (classified instanceof ProgramError) {
+    return classified.message;
+  }
+  return classified.message.slice(0, 100);
+}
@@ -0,0 +1,77 @@
+import type { TreeHistoryCache, TreeHistoryEntry } from './tree-history';
+
+// Browser-only IndexedDB store for decoded tree history, keyed by tree and signature
+const DB_NAME = 'soltree-history';
+const DB_VERSION = 2;
+const STORE_NAME = 'entries';
+
+interface StoredEntry extends TreeHistoryEntry {
+  tree: string;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Version 1 keyed entries by signature alone; it is only a cache, so start over
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      db.createObjectStore(STORE_NAME, { keyPath: ['tree', 'signature'] });
+    };
+    dbPromise = promisifyRequest(request).catch((error) => {
+      // Let a later call retry, e.g. after the user allows storage
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+export function createIndexedDbHistoryCache(): TreeHistoryCache {
+  return {
+    async getEntries(tree: string, signatures: string[]): Promise<Map<string, TreeHistoryEntry>> {
+      const entries = new Map<string, TreeHistoryEntry>();
+      try {
+        const store = (await openDatabase()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+        const stored = await Promise.all(
+          signatures.map((signature) => promisifyRequest<StoredEntry | undefined>(store.get([tree, signature])))
+        );
+        stored.forEach((entry) => {
+          if (entry) {
+            const { tree: _tree, ...historyEntry } = entry;
+            entries.set(entry.signature, historyEntry);
+          }
+        });
+      } catch (error) {
+        // A missing cache only costs extra RPC calls
+        console.warn('Tree history cache unavailable:', error);
+      }
+      return entries;
+    },
+
+    async putEntries(tree: string, entries: TreeHistoryEntry[]): Promise<void> {
+      try {
+        const transaction = (await openDatabase()).transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        entries.forEach((entry) => store.put({ ...entry, tree }));
+        await new Promise<void>((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+        });
+      } catch (error) {
+        console.warn('Could not cache tree history:', error);
+      }
+    }
+  };
+}
@@ -0,0 +1,120 @@
+import { Connection, PACKET_DATA_SIZE, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import { createBurnIx, createDelegateIx, createTransferIx, hashLeaf, type LeafChangeArgs } from './bubblegum';
+import { classifyError } from './errors';
+import { BUBBLEGUM_PROGRAM_ID, getTreeInfo } from './merkle-tree';
+import type { AssetWithProof, ProofProvider } from './proof-provider';
+import { verifyProof } from './proof-verifier';
+import { getTransactionSize } from './transactions';
+
+export type LeafAction =
+  | { type: 'transfer'; newLeafOwner: PublicKey }
+  | { type: 'delegate'; newLeafDelegate: PublicKey }
+  | { type: 'burn' };
+
+export interface ManageCompressedNftResult {
+  signature: string;
+  asset: AssetWithProof;
+}
+
+// Build the Bubblegum instruction for an action, attaching only the proof nodes the canopy doesn't hold
+export function createLeafActionIx(
+  authority: PublicKey,
+  asset: AssetWithProof,
+  action: LeafAction,
+  canopyDepth: number
+): TransactionInstruction {
+  const { leaf, merkleTree } = asset;
+  const args: LeafChangeArgs = {
+    root: asset.root,
+    dataHash: leaf.dataHash,
+    creatorHash: leaf.creatorHash,
+    nonce: leaf.nonce,
+    index: leaf.nonce
+  };
+  const proof = asset.proof.slice(0, asset.proof.length - canopyDepth);
+
+  switch (action.type) {
+    case 'transfer':
+      return createTransferIx(
+        { merkleTree, leafOwner: leaf.owner, leafDelegate: leaf.delegate, newLeafOwner: action.newLeafOwner, authority },
+        args,
+        proof
+      );
+    case 'delegate':
+      return createDelegateIx(
+        { merkleTree, leafOwner: leaf.owner, previousLeafDelegate: leaf.delegate, newLeafDelegate: action.newLeafDelegate },
+        args,
+        proof
+      );
+    case 'burn':
+      return createBurnIx({ merkleTree, leafOwner: leaf.owner, leafDelegate: leaf.delegate, authority }, args, proof);
+  }
+}
+
+export async function manageCompressedNft(
+  connection: Connection,
+  authority: PublicKey,
+  signTransaction: (transaction: Transaction) => Promise<Transaction>,
+  proofProvider: ProofProvider,
+  assetId: PublicKey,
+  action: LeafAction
+): Promise<ManageCompressedNftResult> {
+  try {
+    console.log(`🍃 Preparing ${action.type} of compressed NFT:`, assetId.toString());
+
+    const asset = await proofProvider.getAssetWithProof(assetId);
+    const { leaf } = asset;
+
+    const isOwner = leaf.owner.equals(authority);
+    if (action.type === 'delegate' ? !isOwner : !isOwner && !leaf.delegate.equals(authority)) {
+      throw new Error(`Connected wallet is not the ${action.type === 'delegate' ? 'owner' : 'owner or delegate'} of this asset`);
+    }
+
+    const treeAccount = await getTreeInfo(connection, asset.merkleTree);
+    if (!treeAccount) {
+      throw new Error(`Tree ${asset.merkleTree.toString()} not found`);
+    }
+
+    // An indexer lagging behind the tree would only surface as an opaque program error after signing
+    const verification = verifyProof(treeAccount, {
+      leaf: hashLeaf(leaf),
+      index: leaf.nonce,
+      root: asset.root,
+      proof: asset.proof
+    });
+    if (verification.verdict === 'stale' || verification.verdict === 'corrupt') {
+      throw new Error(`Proof is ${verification.verdict}: ${verification.message}`);
+    }
+
+    // Reject before the wallet prompt: the proof nodes below the canopy must fit in one transaction
+    const instruction = createLeafActionIx(authority, asset, action, treeAccount.canopyDepth);
+    const size = getTransactionSize([instruction], authority);
+    if (size > PACKET_DATA_SIZE) {
+      const proofNodes = treeAccount.maxDepth - treeAccount.canopyDepth;
+      throw new Error(
+        `Transaction would be ${size} bytes (limit ${PACKET_DATA_SIZE}): ${proofNodes} proof nodes with a canopy depth of ${treeAccount.canopyDepth}`
+      );
+    }
+
+    const transaction = new Transaction().add(instruction);
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = authority;
+
+    const signedTransaction = await signTransaction(transaction);
+
+    const signature = await connection.sendRawTransaction(signedTransaction.serialize(), {
+      skipPreflight: false,
+      preflightCommitment: 'processed'
+    });
+
+    await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+
+    console.log(`✅ Compressed NFT ${action.type} confirmed:`, signature);
+
+    return { signature, asset };
+  } catch (error) {
+    throw classifyError(error, { action: `${action.type} compressed NFT`, programIds: [BUBBLEGUM_PROGRAM_ID] });
+  }
+}
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import { Connection, PublicKey, SystemProgram, type AccountInfo } from '@solana/web3.js';
+import {
+  ALL_DEPTH_SIZE_PAIRS as REFERENCE_DEPTH_SIZE_PAIRS,
+  ConcurrentMerkleTreeAccount as ReferenceTreeAccount,
+  MerkleTree,
+  getConcurrentMerkleTreeAccountSize as referenceAccountSize
+} from '@solana/spl-account-compression';
+import {
+  ALL_DEPTH_SIZE_PAIRS,
+  CONCURRENT_MERKLE_TREE_HEADER_SIZE,
+  SPL_ACCOUNT_COMPRESSION_PROGRAM_ID,
+  deserializeConcurrentMerkleTreeAccount,
+  getCanopySize,
+  getConcurrentMerkleTreeAccountSize,
+  getConcurrentMerkleTreeSize,
+  getTreeInfo,
+  MAX_CANOPY_DEPTH
+} from './merkle-tree';
+import { InvalidConfig, RpcAuthError, RpcUnreachable, SoltreeError } from './errors';
+import fixture from './__fixtures__/concurrent-merkle-tree-account.json';
+
+// Every canopy depth from none up to the full tree or the app's cap, whichever is lower
+const canopyDepthsFor = (maxDepth: number) => Array.from({ length: Math.min(maxDepth, MAX_CANOPY_DEPTH) + 1 }, (_, depth) => depth);
+
+describe('getConcurrentMerkleTreeAccountSize', () => {
+  it('uses a 56 byte header', () => {
+    // Account type, header version, max_buffer_size, max_depth, authority, creation_slot, padding
+    expect(CONCURRENT_MERKLE_TREE_HEADER_SIZE).toBe(1 + 1 + 4 + 4 + 32 + 8 + 6);
+  });
+
+  it('sizes the tree body from its changelog and rightmost path', () => {
+    for (const [maxDepth, maxBufferSize] of ALL_DEPTH_SIZE_PAIRS) {
+      const changeLogSize = 32 + maxDepth * 32 + 4 + 4;
+      const pathSize = maxDepth * 32 + 32 + 4 + 4;
+      expect(getConcurrentMerkleTreeSize(maxDepth, maxBufferSize)).toBe(8 + 8 + 8 + maxBufferSize * changeLogSize + pathSize);
+    }
+  });
+
+  it('sizes the canopy as every node above the leaves down to its depth, root excluded', () => {
+    expect(getCanopySize(0)).toBe(0);
+    expect(getCanopySize(1)).toBe(2 * 32);
+    expect(getCanopySize(2)).toBe(6 * 32);
+    expect(getCanopySize(10)).toBe(2046 * 32);
+    expect(getCanopySize(MAX_CANOPY_DEPTH)).toBe(262_142 * 32);
+  });
+
+  it('matches known account sizes', () => {
+    expect(getConcurrentMerkleTreeAccountSize(3, 8, 0)).toBe(1_304);
+    expect(getConcurrentMerkleTreeAccountSize(14, 64, 0)).toBe(31_800);
+    expect(getConcurrentMerkleTreeAccountSize(20, 1024, 10)).toBe(762_552);
+    expect(getConcurrentMerkleTreeAccountSize(30, 2048, 17)).toBe(10_437_624);
+  });
+
+  it('matches spl-account-compression for every depth/buffer pair and canopy depth', () => {
+    for (const [maxDepth, maxBufferSize] of ALL_DEPTH_SIZE_PAIRS) {
+      for (const canopyDepth of canopyDepthsFor(maxDepth)) {
+        const size = getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, canopyDepth);
+        expect(size, `depth ${maxDepth}, buffer ${maxBufferSize}, canopy ${canopyDepth}`).toBe(
+          referenceAccountSize(maxDepth, maxBufferSize, canopyDepth)
+        );
+        expect(size).toBe(
+          CONCURRENT_MERKLE_TREE_HEADER_SIZE + getConcurrentMerkleTreeSize(maxDepth, maxBufferSize) + getCanopySize(canopyDepth)
+        );
+      }
+    }
+  });
+
+  it('only offers pairs the program accepts', () => {
+    for (const [maxDepth, maxBufferSize] of ALL_DEPTH_SIZE_PAIRS) {
+      expect(REFERENCE_DEPTH_SIZE_PAIRS).toContainEqual({ maxDepth, maxBufferSize });
+    }
+  });
+});
+
+describe('deserializeConcurrentMerkleTreeAccount', () => {
+  const data = Buffer.from(fixture.data, 'base64');
+  const account = deserializeConcurrentMerkleTreeAccount(data);
+  const reference = ReferenceTreeAccount.fromBuffer(data);
+  const leaves = fixture.leaves.map((leaf) => Buffer.from(leaf, 'hex'));
+  const tree = MerkleTree.sparseMerkleTreeFromLeaves(leaves, fixture.maxDepth);
+
+  // Node of the reference tree at a level, level 0 being the leaves
+  const nodeAt = (level: number, index: number) => {
+    let node = tree.leaves[index << level];
+    for (let i = 0; i < level; i++) {
+      node = node.parent!;
+    }
+    return node.node;
+  };
+
+  it('decodes the header', () => {
+    expect(data.length).toBe(getConcurrentMerkleTreeAccountSize(fixture.maxDepth, fixture.maxBufferSize, fixture.canopyDepth));
+    expect(account.maxDepth).toBe(fixture.maxDepth);
+    expect(account.maxBufferSize).toBe(fixture.maxBufferSize);
+    expect(account.authority.toString()).toBe(fixture.authority);
+    expect(account.creationSlot).toBe(fixture.creationSlot);
+    expect(account.maxDepth).toBe(reference.getMaxDepth());
+    expect(account.maxBufferSize).toBe(reference.getMaxBufferSize());
+    expect(account.authority.equals(reference.getAuthority())).toBe(true);
+  });
+
+  it('decodes the changelog ring buffer', () => {
+    // The empty root and 12 changes through 8 slots: changes 8-12 overwrote slots 0-4
+    expect(account.sequenceNumber).toBe(12);
+    expect(account.activeIndex).toBe(4);
+    expect(account.bufferSize).toBe(8);
+    expect(account.sequenceNumber).toBe(Number(reference.getCurrentSeq()));
+    expect(account.activeIndex).toBe(reference.getCurrentBufferIndex());
+    expect(account.bufferSize).toBe(reference.getBufferSize());
+
+    expect(account.changeLogs.map((changeLog) => changeLog.index)).toEqual([7, 8, 9, 3, 7, 4, 5, 6]);
+    account.changeLogs.forEach((changeLog, slot) => {
+      const expected = reference.tree.changeLogs[slot];
+      expect(changeLog.root.equals(expected.root.toBuffer())).toBe(true);
+      expect(changeLog.pathNodes.map((node) => node.toString('hex'))).toEqual(
+        expected.pathNodes.map((node) => node.toBuffer().toString('hex'))
+      );
+    });
+
+    // The latest change burned leaf 7: its path runs from an empty leaf to the current root
+    const latest = account.changeLogs[account.activeIndex];
+    expect(latest.pathNodes[0].equals(Buffer.alloc(32))).toBe(true);
+    latest.pathNodes.forEach((node, level) => expect(node.equals(nodeAt(level, 7 >> level))).toBe(true));
+  });
+
+  it('decodes the current root', () => {
+    expect(account.currentRoot.equals(tree.root)).toBe(true);
+    expect(account.currentRoot.equals(reference.getCurrentRoot())).toBe(true);
+  });
+
+  it('decodes the rightmost path', () => {
+    expect(account.rightmostIndex).toBe(leaves.length);
+    expect(account.rightmostLeaf.equals(leaves[leaves.length - 1])).toBe(true);
+    expect(account.rightmostProof.map((node) => node.toString('hex'))).toEqual(
+      tree.getProof(leaves.length - 1).proof.map((node) => node.toString('hex'))
+    );
+  });
+
+  it('decodes the canopy', () => {
+    expect(account.canopyDepth).toBe(fixture.canopyDepth);
+    expect(account.canopyDepth).toBe(reference.getCanopyDepth());
+    expect(Buffer.concat(account.canopy).equals(Buffer.from(reference.canopy.canopyBytes))).toBe(true);
+
+    // Breadth-first below the root; subtrees no change has touched are still zeroed
+    const empty = Buffer.alloc(32);
+    const expected = [nodeAt(4, 0), empty, nodeAt(3, 0), nodeAt(3, 1), empty, empty];
+    expect(account.canopy.map((node) => node.toString('hex'))).toEqual(expected.map((node) => node.toString('hex')));
+  });
+
+  it('rejects data that is not a tree account', () => {
+    expect(() => deserializeConcurrentMerkleTreeAccount(data.subarray(0, 20))).toThrow(/too small/);
+    expect(() => deserializeConcurrentMerkleTreeAccount(data.subarray(0, 200))).toThrow(/too small/);
+    const uninitialized = Buffer.from(data);
+    uninitialized[0] = 0;
+    expect(() => deserializeConcurrentMerkleTreeAccount(uninitialized)).toThrow(/not an initialized/);
+    expect(() => deserializeConcurrentMerkleTreeAccount(data.subarray(0, data.length - 16))).toThrow(/Invalid canopy size/);
+  });
+
+  it('rejects a changelog state outside the buffer', () => {
+    const activeIndexOffset = CONCURRENT_MERKLE_TREE_HEADER_SIZE + 8;
+    const bufferSizeOffset = CONCURRENT_MERKLE_TREE_HEADER_SIZE + 16;
+
+    const pastActive = Buffer.from(data);
+    pastActive.writeBigUInt64LE(BigInt(fixture.maxBufferSize), activeIndexOffset);
+    expect(() => deserializeConcurrentMerkleTreeAccount(pastActive)).toThrow(/Invalid changelog state/);
+
+    const overfull = Buffer.from(data);
+    overfull.writeBigUInt64LE(BigInt(fixture.maxBufferSize + 1), bufferSizeOffset);
+    expect(() => deserializeConcurrentMerkleTreeAccount(overfull)).toThrow(/Invalid changelog state/);
+  });
+});
+
+describe('getTreeInfo', () => {
+  const address = new PublicKey(fixture.authority);
+  const data = Buffer.from(fixture.data, 'base64');
+
+  const connectionReturning = (getAccountInfo: () => Promise<AccountInfo<Buffer> | null>) =>
+    ({ getAccountInfo }) as unknown as Connection;
+
+  const accountOwnedBy = (owner: PublicKey): AccountInfo<Buffer> => ({
+    data,
+    owner,
+    lamports: 1,
+    executable: false,
+    rentEpoch: 0
+  });
+
+  it('returns the decoded tree', async () => {
+    const tree = await getTreeInfo(connectionReturning(async () => accountOwnedBy(SPL_ACCOUNT_COMPRESSION_PROGRAM_ID)), address);
+    expect(tree?.rightmostIndex).toBe(fixture.leaves.length);
+  });
+
+  it('returns null only when the account does not exist', async () => {
+    await expect(getTreeInfo(connectionReturning(async () => null), address)).resolves.toBeNull();
+  });
+
+  it('rejects an account owned by another program', async () => {
+    const error = await getTreeInfo(connectionReturning(async () => accountOwnedBy(SystemProgram.programId)), address).catch((e) => e);
+    expect(error).toBeInstanceOf(InvalidConfig);
+    expect(error.field).toBe('treeAddress');
+  });
+
+  it('classifies RPC failures instead of hiding them', async () => {
+    await expect(
+      getTreeInfo(connectionReturning(async () => { throw new Error('401 Unauthorized: invalid api key'); }), address)
+    ).rejects.toBeInstanceOf(RpcAuthError);
+    await expect(
+      getTreeInfo(connectionReturning(async () => { throw new TypeError('fetch failed'); }), address)
+    ).rejects.toBeInstanceOf(RpcUnreachable);
+  });
+
+  it('rejects corrupt tree data', async () => {
+    const corrupt = { ...accountOwnedBy(SPL_ACCOUNT_COMPRESSION_PROGRAM_ID), data: data.subarray(0, 100) };
+    await expect(getTreeInfo(connectionReturning(async () => corrupt), address)).rejects.toBeInstanceOf(SoltreeError);
+  });
+});
@@ -5,28 +5,60 @@ import {
   sendAndConfirmTransaction,
   Keypair,
   SystemProgram,
+  TransactionInstruction,
   LAMPORTS_PER_SOL
 } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import { classifyError, InvalidConfig } from './errors';
+import { getComputeBudgetInstructions } from './priority-fees';
+import type { PriorityFee } from './costs';
+import { sendAndConfirmRawTransaction, type SendProgress } from './transaction-sender';
 
 // Official Solana Program IDs
 export const SPL_ACCOUNT_COMPRESSION_PROGRAM_ID = new PublicKey('cmtDvXumGCrqC1Age74AVPhSRVXJMd8PJS91L8KbNCK');
 export const SPL_NOOP_PROGRAM_ID = new PublicKey('noopb9bkMVfRPU8AsbpTUg8AQkHtKwMYZiFUjNRtMmV');
 export const BUBBLEGUM_PROGRAM_ID = new PublicKey('BGUMAp9Gq7iTEuizy4pqaxsTyUCBK68MDfK752saRPUY');
 
-function getConcurrentMerkleTreeAccountSize(
+// Account layout sizes, matching spl-account-compression's on-chain structs
+const COMPRESSION_ACCOUNT_TYPE_SIZE = 1; // CompressionAccountType discriminant
+const HEADER_VERSION_SIZE = 1; // ConcurrentMerkleTreeHeaderData version discriminant
+// ConcurrentMerkleTreeHeaderDataV1: max_buffer_size u32, max_depth u32, authority, creation_slot u64, 6 bytes padding
+const HEADER_V1_DATA_SIZE = 4 + 4 + 32 + 8 + 6;
+export const CONCURRENT_MERKLE_TREE_HEADER_SIZE = COMPRESSION_ACCOUNT_TYPE_SIZE + HEADER_VERSION_SIZE + HEADER_V1_DATA_SIZE;
+const NODE_SIZE = 32;
+
+// ChangeLog<DEPTH>: root, path [Node; DEPTH], index u32, padding u32
+function getChangeLogSize(maxDepth: number): number {
+  return NODE_SIZE + maxDepth * NODE_SIZE + 4 + 4;
+}
+
+// Path<DEPTH> (the rightmost proof): proof [Node; DEPTH], leaf, index u32, padding u32
+function getPathSize(maxDepth: number): number {
+  return maxDepth * NODE_SIZE + NODE_SIZE + 4 + 4;
+}
+
+// ConcurrentMerkleTree<DEPTH, BUFFER>: sequence_number, active_index and buffer_size (u64 each),
+// the changelog ring buffer and the rightmost proof
+export function getConcurrentMerkleTreeSize(maxDepth: number, maxBufferSize: number): number {
+  return 8 + 8 + 8 + maxBufferSize * getChangeLogSize(maxDepth) + getPathSize(maxDepth);
+}
+
+// The canopy caches the upper levels of the tree, excluding the root: 2^(canopy+1) - 2 nodes
+export function getCanopySize(canopyDepth: number): number {
+  return canopyDepth > 0 ? (Math.pow(2, canopyDepth + 1) - 2) * NODE_SIZE : 0;
+}
+
+export function getConcurrentMerkleTreeAccountSize(
   maxDepth: number,
   maxBufferSize: number,
   canopyDepth: number
 ): number {
-  // Calculate the size needed for a concurrent merkle tree account
-  // This is a simplified calculation based on Solana's Account Compression standards
-  
-  const headerSize = 64; // Account header
-  const treeSize = Math.pow(2, maxDepth + 1) * 32; // Tree nodes (32 bytes each)
-  const bufferSize = maxBufferSize * 32; // Buffer for pending changes
-  const canopySize = canopyDepth > 0 ? Math.pow(2, canopyDepth) * 32 : 0; // Canopy nodes
-  
-  return headerSize + treeSize + bufferSize + canopySize;
+  // Exact byte size of a concurrent merkle tree account: header + tree body + canopy
+  return (
+    CONCURRENT_MERKLE_TREE_HEADER_SIZE +
+    getConcurrentMerkleTreeSize(maxDepth, maxBufferSize) +
+    getCanopySize(canopyDepth)
+  );
 }
 
 // Function for creating the concurrent Merkle tree account allocation instruction
@@ -52,12 +84,12 @@ async function createAllocTreeIx(
     });
   } catch (error) {
     console.error('Error creating allocation instruction:', error);
-    throw new Error(`Failed to create allocation instruction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw classifyError(error, { action: 'create allocation instruction' });
   }
 }
 
 // Function to derive the tree authority PDA from the tree account
-function getTreeAuthority(treeAccount: PublicKey): [PublicKey, number] {
+export function getTreeAuthority(treeAccount: PublicKey): [PublicKey, number] {
   try {
     return PublicKey.findProgramAddressSync(
       [treeAccount.toBuffer()],
@@ -69,7 +101,161 @@ function getTreeAuthority(treeAccount: PublicKey): [PublicKey, number] {
   }
 }
 
-type ConcurrentMerkleTreeAccount = any;
+// Anchor discriminator of Bubblegum's create_tree instruction (sha256("global:create_tree")[0..8])
+const CREATE_TREE_CONFIG_DISCRIMINATOR = Buffer.from([165, 83, 136, 142, 89, 202, 47, 220]);
+
+// Function for creating the Bubblegum create_tree_config instruction. Bubblegum creates the
+// TreeConfig PDA and CPIs into account compression to initialize the allocated tree account.
+function createTreeConfigIx(
+  merkleTree: PublicKey,
+  payer: PublicKey,
+  treeCreator: PublicKey,
+  maxDepth: number,
+  maxBufferSize: number,
+  isPublic?: boolean
+): TransactionInstruction {
+  const [treeAuthority] = getTreeAuthority(merkleTree);
+
+  // Args: max_depth (u32), max_buffer_size (u32), public (Option<bool>)
+  const data = Buffer.alloc(CREATE_TREE_CONFIG_DISCRIMINATOR.length + 4 + 4 + (isPublic === undefined ? 1 : 2));
+  CREATE_TREE_CONFIG_DISCRIMINATOR.copy(data, 0);
+  data.writeUInt32LE(maxDepth, 8);
+  data.writeUInt32LE(maxBufferSize, 12);
+  if (isPublic === undefined) {
+    data.writeUInt8(0, 16);
+  } else {
+    data.writeUInt8(1, 16);
+    data.writeUInt8(isPublic ? 1 : 0, 17);
+  }
+
+  return new TransactionInstruction({
+    programId: BUBBLEGUM_PROGRAM_ID,
+    keys: [
+      { pubkey: treeAuthority, isSigner: false, isWritable: true },
+      { pubkey: merkleTree, isSigner: false, isWritable: true },
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: treeCreator, isSigner: true, isWritable: false },
+      { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data,
+  });
+}
+
+export interface ChangeLog {
+  root: Buffer;
+  // Nodes along the modified leaf's path, from the leaf up to (excluding) the root
+  pathNodes: Buffer[];
+  index: number;
+}
+
+export interface ConcurrentMerkleTreeAccount {
+  maxDepth: number;
+  maxBufferSize: number;
+  canopyDepth: number;
+  authority: PublicKey;
+  creationSlot: number;
+  sequenceNumber: number;
+  activeIndex: number;
+  bufferSize: number;
+  currentRoot: Buffer;
+  rightmostLeaf: Buffer;
+  // Index of the next leaf to be appended, i.e. the number of leaves appended so far
+  rightmostIndex: number;
+  rightmostProof: Buffer[];
+  changeLogs: ChangeLog[];
+  canopy: Buffer[];
+}
+
+// CompressionAccountType::ConcurrentMerkleTree and ConcurrentMerkleTreeHeaderData::V1
+const COMPRESSION_ACCOUNT_TYPE_CONCURRENT_MERKLE_TREE = 1;
+const HEADER_VERSION_V1 = 0;
+
+function readNodes(data: Buffer, offset: number, count: number): Buffer[] {
+  return Array.from({ length: count }, (_, i) =>
+    Buffer.from(data.subarray(offset + i * NODE_SIZE, offset + (i + 1) * NODE_SIZE))
+  );
+}
+
+// Deserialize the raw data of a concurrent merkle tree account (header, tree body and canopy)
+export function deserializeConcurrentMerkleTreeAccount(data: Buffer): ConcurrentMerkleTreeAccount {
+  if (data.length < CONCURRENT_MERKLE_TREE_HEADER_SIZE) {
+    throw new Error(`Account data too small for a concurrent merkle tree header (${data.length} bytes)`);
+  }
+  if (data.readUInt8(0) !== COMPRESSION_ACCOUNT_TYPE_CONCURRENT_MERKLE_TREE) {
+    throw new Error('Account is not an initialized concurrent merkle tree');
+  }
+  if (data.readUInt8(1) !== HEADER_VERSION_V1) {
+    throw new Error(`Unsupported concurrent merkle tree header version: ${data.readUInt8(1)}`);
+  }
+
+  // Header
+  const maxBufferSize = data.readUInt32LE(2);
+  const maxDepth = data.readUInt32LE(6);
+  const authority = new PublicKey(data.subarray(10, 42));
+  const creationSlot = Number(data.readBigUInt64LE(42));
+
+  const treeSize = getConcurrentMerkleTreeSize(maxDepth, maxBufferSize);
+  if (data.length < CONCURRENT_MERKLE_TREE_HEADER_SIZE + treeSize) {
+    throw new Error(`Account data too small for a tree of depth ${maxDepth} and buffer ${maxBufferSize}`);
+  }
+
+  // Tree body
+  let offset = CONCURRENT_MERKLE_TREE_HEADER_SIZE;
+  const sequenceNumber = Number(data.readBigUInt64LE(offset));
+  const activeIndex = Number(data.readBigUInt64LE(offset + 8));
+  const bufferSize = Number(data.readBigUInt64LE(offset + 16));
+  offset += 24;
+  // Both index into the changelog ring, which holds maxBufferSize entries
+  if (activeIndex >= maxBufferSize || bufferSize > maxBufferSize) {
+    throw new Error(`Invalid changelog state: active index ${activeIndex}, ${bufferSize} of ${maxBufferSize} entries`);
+  }
+
+  const changeLogs: ChangeLog[] = [];
+  for (let i = 0; i < maxBufferSize; i++) {
+    const root = Buffer.from(data.subarray(offset, offset + NODE_SIZE));
+    const pathNodes = readNodes(data, offset + NODE_SIZE, maxDepth);
+    const index = data.readUInt32LE(offset + NODE_SIZE + maxDepth * NODE_SIZE);
+    changeLogs.push({ root, pathNodes, index });
+    offset += getChangeLogSize(maxDepth);
+  }
+
+  const rightmostProof = readNodes(data, offset, maxDepth);
+  offset += maxDepth * NODE_SIZE;
+  const rightmostLeaf = Buffer.from(data.subarray(offset, offset + NODE_SIZE));
+  const rightmostIndex = data.readUInt32LE(offset + NODE_SIZE);
+  offset += NODE_SIZE + 8;
+
+  // Canopy: whatever is left holds 2^(canopy+1) - 2 nodes
+  const canopyBytes = data.length - offset;
+  const canopyNodeCount = canopyBytes / NODE_SIZE;
+  const canopyDepth = Math.log2(canopyNodeCount + 2) - 1;
+  if (!Number.isInteger(canopyNodeCount) || !Number.isInteger(canopyDepth)) {
+    throw new Error(`Invalid canopy size: ${canopyBytes} bytes`);
+  }
+  const canopy = readNodes(data, offset, canopyNodeCount);
+
+  return {
+    maxDepth,
+    maxBufferSize,
+    canopyDepth,
+    authority,
+    creationSlot,
+    sequenceNumber,
+    activeIndex,
+    bufferSize,
+    currentRoot: changeLogs[activeIndex].root,
+    rightmostLeaf,
+    rightmostIndex,
+    rightmostProof,
+    changeLogs,
+    canopy
+  };
+}
+
+// Deepest canopy account compression will initialize
+export const MAX_CANOPY_DEPTH = 17;
 
 // Valid depth-size pairs as defined by @solana/spl-account-compression
 export const ALL_DEPTH_SIZE_PAIRS: [number, number][] = [
@@ -86,6 +272,20 @@ export interface MerkleTreeParams {
   canopyDepth: number;
   maxDepth: number;
   maxBufferSize: number;
+  // When false (the Bubblegum default) only the tree creator or its delegate can mint
+  public?: boolean;
+}
+
+// Receives progress messages; console.log unless the caller needs stdout for itself
+export type Logger = (...args: unknown[]) => void;
+
+export interface CreateTreeOptions {
+  public?: boolean;
+  // Separate tree creator; defaults to the payer
+  treeCreator?: Keypair;
+  priorityFee?: PriorityFee;
+  onProgress?: (progress: SendProgress) => void;
+  log?: Logger;
 }
 
 // Alternative interface matching the user's specification
@@ -107,50 +307,83 @@ export interface CreateMerkleTreeResult {
   treeConfigAddress: string;
 }
 
-export function estimateCost(canopyDepth: number, maxBufferSize: number): string {
-  // Base cost for tree creation
-  let cost = 0.01;
-  
-  // Additional cost based on canopy depth
-  cost += canopyDepth * 0.001;
-  
-  // Additional cost based on buffer size
-  cost += (maxBufferSize / 1000) * 0.01;
-  
-  return cost.toFixed(3);
+export interface CreateTreeTransaction {
+  // Signed by the tree keypair only; the payer (and a separate tree creator) still need to sign
+  transaction: Transaction;
+  blockhash: string;
+  lastValidBlockHeight: number;
+  treeAddress: string;
+  treeConfigAddress: string;
 }
 
-export function calculateCosts(proofSize?: number) {
-  console.log('=== Solana Compressed NFT Tree Cost Analysis ===');
-  console.log('');
-  
-  ALL_DEPTH_SIZE_PAIRS.forEach(([maxDepth, maxBufferSize]) => {
-    try {
-      // Calculate maximum canopy depth (proof size determines this)
-      const maxCanopy = proofSize ? Math.max(0, maxDepth - proofSize) : Math.floor(maxDepth / 2);
-      
-      // Calculate tree properties
-      const maxNFTs = Math.pow(2, maxDepth);
-      const accountSize = getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, maxCanopy);
-      
-      // Check if account size would be too large (Solana has practical limits)
-      if (accountSize > 10485760) { // 10MB limit
-        console.log(`Depth: ${maxDepth.toString().padStart(2)}, Buffer: ${maxBufferSize.toString().padStart(4)}, Canopy: ${maxCanopy.toString().padStart(2)} | NFTs: ${maxNFTs.toLocaleString().padStart(12)} | Status: TOO LARGE`);
-        return;
-      }
-      
-      // Estimate rent cost (approximate 0.00000348 SOL per byte)
-      const rentCostSOL = (accountSize * 0.00000348).toFixed(6);
-      
-      console.log(`Depth: ${maxDepth.toString().padStart(2)}, Buffer: ${maxBufferSize.toString().padStart(4)}, Canopy: ${maxCanopy.toString().padStart(2)} | NFTs: ${maxNFTs.toLocaleString().padStart(12)} | Rent: ${rentCostSOL} SOL`);
-    } catch (error) {
-      console.log(`Depth: ${maxDepth.toString().padStart(2)}, Buffer: ${maxBufferSize.toString().padStart(4)} | Error: Unable to fetch minimum balance for rent exemption`);
-    }
-  });
-  
-  console.log('');
-  console.log('Note: Rent costs are estimates. Some configurations may be too large to create.');
-  console.log('Canopy depth reduces proof size but increases storage cost.');
+// Allocate the tree account and initialize it through Bubblegum in one transaction
+export async function buildCreateTreeTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  treeKeypair: Keypair,
+  params: MerkleTreeParams,
+  treeCreator: PublicKey = payer,
+  // Adds compute unit limit and price instructions ahead of the tree instructions
+  priorityFee?: PriorityFee,
+  log: Logger = console.log
+): Promise<CreateTreeTransaction> {
+  const { canopyDepth, maxDepth, maxBufferSize, public: isPublic } = params;
+  if (!isValidDepthSizePair(maxDepth, maxBufferSize)) {
+    throw new InvalidConfig(`(${maxDepth}, ${maxBufferSize}) is not a supported depth-size pair`, 'maxBufferSize');
+  }
+  if (canopyDepth < 0 || canopyDepth >= maxDepth) {
+    throw new InvalidConfig('Canopy depth must be at least 0 and less than max depth', 'canopyDepth');
+  }
+
+  // Derive tree authority PDA
+  const [treeAuthority] = getTreeAuthority(treeKeypair.publicKey);
+  log('📋 Tree authority PDA:', treeAuthority.toString());
+
+  // Calculate space needed for the tree account
+  const requiredSpace = getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, canopyDepth);
+  log('💾 Required space for tree account:', requiredSpace, 'bytes');
+
+  // Create allocation instruction for the concurrent Merkle tree account
+  const allocTreeIx = await createAllocTreeIx(
+    connection,
+    treeKeypair.publicKey,
+    payer,
+    maxDepth,
+    maxBufferSize,
+    canopyDepth
+  );
+
+  // Create the TreeConfig PDA and initialize the tree through Bubblegum
+  const createTreeIx = createTreeConfigIx(
+    treeKeypair.publicKey,
+    payer,
+    treeCreator,
+    maxDepth,
+    maxBufferSize,
+    isPublic
+  );
+
+  const transaction = new Transaction();
+  if (priorityFee) {
+    transaction.add(...getComputeBudgetInstructions(priorityFee));
+  }
+  transaction.add(allocTreeIx, createTreeIx);
+
+  // Get recent blockhash
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = payer;
+
+  // Sign with tree keypair first (for account creation)
+  transaction.partialSign(treeKeypair);
+
+  return {
+    transaction,
+    blockhash,
+    lastValidBlockHeight,
+    treeAddress: treeKeypair.publicKey.toString(),
+    treeConfigAddress: treeAuthority.toString()
+  };
 }
 
 export async function createTree(
@@ -158,174 +391,182 @@ export async function createTree(
   payer: Keypair,
   treeKeypair: Keypair,
   maxDepthSizePair: ValidDepthSizePair,
-  canopyDepth: number = 0
+  canopyDepth: number = 0,
+  options: CreateTreeOptions = {}
 ): Promise<CreateMerkleTreeResult> {
   const [maxDepth, maxBufferSize] = maxDepthSizePair;
+  const treeCreator = options.treeCreator ?? payer;
+  const log = options.log ?? console.log;
+  let programIds: PublicKey[] = [];
   
   try {
-    console.log('🌳 Creating Bubblegum tree with proper accounts:', { canopyDepth, maxDepth, maxBufferSize });
-    
-    // Derive tree authority PDA
-    const [treeAuthority] = getTreeAuthority(treeKeypair.publicKey);
-    console.log('🔑 Tree authority PDA:', treeAuthority.toString());
-    
-    // Calculate space needed for the tree account
-    const requiredSpace = getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, canopyDepth);
-    console.log('💾 Required space for tree account:', requiredSpace, 'bytes');
+    log('🌳 Creating Bubblegum tree with proper accounts:', { canopyDepth, maxDepth, maxBufferSize });
     
-    // Create allocation instruction for the concurrent Merkle tree account
-    const allocTreeIx = await createAllocTreeIx(
+    const { transaction, lastValidBlockHeight, treeConfigAddress } = await buildCreateTreeTransaction(
       connection,
-      treeKeypair.publicKey,
       payer.publicKey,
-      maxDepth,
-      maxBufferSize,
-      canopyDepth
+      treeKeypair,
+      { canopyDepth, maxDepth, maxBufferSize, public: options.public },
+      treeCreator.publicKey,
+      options.priorityFee,
+      log
     );
     
-    // Create transaction with just the allocation instruction
-    const transaction = new Transaction().add(allocTreeIx);
+    programIds = transaction.instructions.map((instruction) => instruction.programId);
     
-    // Get recent blockhash
-    const { blockhash } = await connection.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = payer.publicKey;
-    
-    // Sign with tree keypair first
-    transaction.partialSign(treeKeypair);
-    
-    // Sign with payer
+    // Sign with payer (and the tree creator when it is a separate keypair)
     transaction.partialSign(payer);
+    if (treeCreator !== payer) {
+      transaction.partialSign(treeCreator);
+    }
     
-    // Send and confirm transaction
-    const signature = await connection.sendRawTransaction(transaction.serialize(), {
-      skipPreflight: false,
-      preflightCommitment: 'processed'
-    });
-    
-    // Wait for confirmation
-    await connection.confirmTransaction({
-      signature,
-      blockhash,
-      lastValidBlockHeight: (await connection.getLatestBlockhash()).lastValidBlockHeight
+    // Send, re-sending until confirmed or the signed blockhash expires
+    const signature = await sendAndConfirmRawTransaction(connection, transaction.serialize(), {
+      lastValidBlockHeight,
+      programIds,
+      onProgress: options.onProgress
     });
     
-    console.log('✅ Bubblegum tree created successfully!');
-    console.log('🌳 Tree account:', treeKeypair.publicKey.toString());
-    console.log('📋 Tree authority:', treeAuthority.toString());
-    console.log('🧾 Transaction signature:', signature);
+    log('✅ Bubblegum tree created successfully!');
+    log('🌳 Tree account:', treeKeypair.publicKey.toString());
+    log('📋 Tree authority:', treeConfigAddress);
+    log('🧾 Transaction signature:', signature);
     
     return {
       signature,
       treeAddress: treeKeypair.publicKey.toString(),
-      treeConfigAddress: treeAuthority.toString()
+      treeConfigAddress
     };
   } catch (error) {
     console.error('❌ Failed to create Bubblegum tree:', error);
-    throw new Error(`Failed to create Merkle tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw classifyError(error, { action: 'create Merkle tree', programIds });
   }
 }
 
-// Keep the original function for backwards compatibility with wallet adapter
-export async function createMerkleTree(
+// Have the wallet sign a built create transaction, then send and confirm it
+export async function sendCreateTreeTransaction(
   connection: Connection,
-  payer: PublicKey,
+  built: CreateTreeTransaction,
   signTransaction: (transaction: Transaction) => Promise<Transaction>,
-  params: MerkleTreeParams
+  onProgress?: (progress: SendProgress) => void
 ): Promise<CreateMerkleTreeResult> {
-  const { canopyDepth, maxDepth, maxBufferSize } = params;
-  
   try {
-    console.log('🌳 Creating Merkle tree with wallet adapter:', { canopyDepth, maxDepth, maxBufferSize });
-    
-    // Generate tree keypair
-    const treeKeypair = Keypair.generate();
-    console.log('🔑 Generated tree keypair:', treeKeypair.publicKey.toString());
-    
-    // Derive tree authority PDA
-    const [treeAuthority] = getTreeAuthority(treeKeypair.publicKey);
-    console.log('📋 Tree authority PDA:', treeAuthority.toString());
-    
-    // Calculate required space for tree account
-    const requiredSpace = getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, canopyDepth);
-    console.log('💾 Required space for tree account:', requiredSpace, 'bytes');
-    
-    // Create allocation instruction for the concurrent Merkle tree account
-    const allocTreeIx = await createAllocTreeIx(
-      connection,
-      treeKeypair.publicKey,
-      payer,
-      maxDepth,
-      maxBufferSize,
-      canopyDepth
-    );
-    
-    // Create simple tree initialization instruction
-    // Note: In production, you would use the full Bubblegum SDK
-    const initTreeIx = SystemProgram.transfer({
-      fromPubkey: payer,
-      toPubkey: treeAuthority,
-      lamports: 1000000, // 0.001 SOL for account creation
-    });
-    
-    // Create transaction with just the allocation instruction  
-    const transaction = new Transaction().add(allocTreeIx);
-    
-    // Get recent blockhash
-    const { blockhash } = await connection.getLatestBlockhash();
-    transaction.recentBlockhash = blockhash;
-    transaction.feePayer = payer;
-    
-    // Sign with tree keypair first (for account creation)
-    transaction.partialSign(treeKeypair);
-    
     // Sign with wallet (for paying fees)
-    const signedTransaction = await signTransaction(transaction);
-    
-    // Send transaction
-    const signature = await connection.sendRawTransaction(signedTransaction.serialize(), {
-      skipPreflight: false,
-      preflightCommitment: 'processed'
-    });
+    const signedTransaction = await signTransaction(built.transaction);
     
-    // Wait for confirmation
-    await connection.confirmTransaction({
-      signature,
-      blockhash,
-      lastValidBlockHeight: (await connection.getLatestBlockhash()).lastValidBlockHeight
+    // Send, re-sending until confirmed or the signed blockhash expires
+    const signature = await sendAndConfirmRawTransaction(connection, signedTransaction.serialize(), {
+      lastValidBlockHeight: built.lastValidBlockHeight,
+      programIds: built.transaction.instructions.map((instruction) => instruction.programId),
+      onProgress
     });
     
     console.log('✅ Merkle tree created successfully with wallet adapter!');
-    console.log('🌳 Tree account:', treeKeypair.publicKey.toString());
-    console.log('📋 Tree authority:', treeAuthority.toString());
+    console.log('🌳 Tree account:', built.treeAddress);
+    console.log('📋 Tree authority:', built.treeConfigAddress);
     console.log('🧾 Transaction signature:', signature);
     
     return {
       signature,
-      treeAddress: treeKeypair.publicKey.toString(),
-      treeConfigAddress: treeAuthority.toString()
+      treeAddress: built.treeAddress,
+      treeConfigAddress: built.treeConfigAddress
     };
   } catch (error) {
     console.error('❌ Failed to create Bubblegum tree:', error);
-    throw new Error(`Failed to create Merkle tree: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw classifyError(error, {
+      action: 'create Merkle tree',
+      programIds: built.transaction.instructions.map((instruction) => instruction.programId)
+    });
+  }
+}
+
+export type ExpiredCreateTreeRecovery =
+  | { landed: true; result: CreateMerkleTreeResult }
+  | { landed: false; built: CreateTreeTransaction };
+
+// After an expiry, either report that the old transaction landed after all or re-sign it with a fresh blockhash.
+// The retry reuses the tree keypair, so both transactions allocate the same account and at most one can succeed.
+export async function recoverExpiredCreateTree(
+  connection: Connection,
+  built: CreateTreeTransaction,
+  treeKeypair: Keypair,
+  expiredSignature: string
+): Promise<ExpiredCreateTreeRecovery> {
+  if (treeKeypair.publicKey.toString() !== built.treeAddress) {
+    throw new InvalidConfig('The tree keypair does not belong to this transaction', 'treeKeypair');
+  }
+
+  try {
+    const [treeAccount, { value: [status] }] = await Promise.all([
+      connection.getAccountInfo(treeKeypair.publicKey, 'confirmed'),
+      connection.getSignatureStatuses([expiredSignature], { searchTransactionHistory: true })
+    ]);
+    const landed = status && !status.err && status.confirmationStatus !== 'processed';
+    if (treeAccount || landed) {
+      console.log('🌳 Expired create transaction landed after all:', built.treeAddress);
+      return {
+        landed: true,
+        result: { signature: expiredSignature, treeAddress: built.treeAddress, treeConfigAddress: built.treeConfigAddress }
+      };
+    }
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    const transaction = new Transaction({ feePayer: built.transaction.feePayer, blockhash, lastValidBlockHeight })
+      .add(...built.transaction.instructions);
+    transaction.partialSign(treeKeypair);
+
+    return { landed: false, built: { ...built, transaction, blockhash, lastValidBlockHeight } };
+  } catch (error) {
+    console.error('❌ Failed to recover expired tree creation:', error);
+    throw classifyError(error, { action: 'recover expired tree creation' });
   }
 }
 
+// Keep the original function for backwards compatibility with wallet adapter
+export async function createMerkleTree(
+  connection: Connection,
+  payer: PublicKey,
+  signTransaction: (transaction: Transaction) => Promise<Transaction>,
+  params: MerkleTreeParams,
+  priorityFee?: PriorityFee
+): Promise<CreateMerkleTreeResult> {
+  const { canopyDepth, maxDepth, maxBufferSize } = params;
+  console.log('🌳 Creating Merkle tree with wallet adapter:', { canopyDepth, maxDepth, maxBufferSize });
+  
+  // Generate tree keypair
+  const treeKeypair = Keypair.generate();
+  console.log('🔑 Generated tree keypair:', treeKeypair.publicKey.toString());
+  
+  let built: CreateTreeTransaction;
+  try {
+    built = await buildCreateTreeTransaction(connection, payer, treeKeypair, params, payer, priorityFee);
+  } catch (error) {
+    console.error('❌ Failed to create Bubblegum tree:', error);
+    throw classifyError(error, { action: 'create Merkle tree' });
+  }
+  return sendCreateTreeTransaction(connection, built, signTransaction);
+}
+
 export async function getTreeInfo(
   connection: Connection,
   treeAddress: PublicKey
 ): Promise<ConcurrentMerkleTreeAccount | null> {
+  // Null only when there is no account; RPC failures and accounts that are not trees are errors
   try {
     const accountInfo = await connection.getAccountInfo(treeAddress);
     if (!accountInfo) {
       return null;
     }
-    
-    // Parse the account data to get tree info
-    // This would use the actual parsing logic from SPL compression
-    return null; // Placeholder
+
+    if (!accountInfo.owner.equals(SPL_ACCOUNT_COMPRESSION_PROGRAM_ID)) {
+      throw new InvalidConfig(
+        `Account ${treeAddress.toString()} is owned by ${accountInfo.owner.toString()}, not the account compression program`,
+        'treeAddress'
+      );
+    }
+
+    return deserializeConcurrentMerkleTreeAccount(Buffer.from(accountInfo.data));
   } catch (error) {
-    console.error('Error getting tree info:', error);
-    return null;
+    throw classifyError(error, { action: 'load tree account' });
   }
 }
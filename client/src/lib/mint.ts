@@ -0,0 +1,153 @@
+import { Connection, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+import {
+  createMintToCollectionV1Ix,
+  createMintV1Ix,
+  getLeafSchemasFromTransaction,
+  TokenProgramVersion,
+  TokenStandard,
+  type Creator,
+  type MetadataArgs
+} from './bubblegum';
+import { classifyError } from './errors';
+import { BUBBLEGUM_PROGRAM_ID } from './merkle-tree';
+
+export interface MintMetadataInput {
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: { address: PublicKey; share: number }[];
+  collectionMint?: PublicKey;
+}
+
+export interface MintCompressedNftParams {
+  merkleTree: PublicKey;
+  metadata: MintMetadataInput;
+  leafOwner: PublicKey;
+  // Defaults to the leaf owner
+  leafDelegate?: PublicKey;
+}
+
+export interface MintCompressedNftResult {
+  signature: string;
+  assetIds: string[];
+}
+
+// Token Metadata limits Bubblegum enforces on minted metadata
+export const MAX_NAME_LENGTH = 32;
+export const MAX_SYMBOL_LENGTH = 10;
+export const MAX_URI_LENGTH = 200;
+export const MAX_CREATOR_LIMIT = 5;
+
+export function validateMintMetadata(input: MintMetadataInput): string[] {
+  const errors: string[] = [];
+  const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+  if (!input.name.trim()) {
+    errors.push('Name is required');
+  } else if (byteLength(input.name) > MAX_NAME_LENGTH) {
+    errors.push(`Name must be at most ${MAX_NAME_LENGTH} bytes`);
+  }
+  if (byteLength(input.symbol) > MAX_SYMBOL_LENGTH) {
+    errors.push(`Symbol must be at most ${MAX_SYMBOL_LENGTH} bytes`);
+  }
+  if (!input.uri.trim()) {
+    errors.push('URI is required');
+  } else if (byteLength(input.uri) > MAX_URI_LENGTH) {
+    errors.push(`URI must be at most ${MAX_URI_LENGTH} bytes`);
+  }
+  if (!Number.isInteger(input.sellerFeeBasisPoints) || input.sellerFeeBasisPoints < 0 || input.sellerFeeBasisPoints > 10000) {
+    errors.push('Seller fee must be between 0 and 10000 basis points');
+  }
+  if (input.creators.length > MAX_CREATOR_LIMIT) {
+    errors.push(`At most ${MAX_CREATOR_LIMIT} creators are allowed`);
+  }
+  if (input.creators.length > 0 && input.creators.reduce((sum, creator) => sum + creator.share, 0) !== 100) {
+    errors.push('Creator shares must add up to 100');
+  }
+
+  return errors;
+}
+
+// Build Bubblegum metadata args; only creators that sign the mint (the payer) can be verified
+export function buildMetadataArgs(input: MintMetadataInput, signer: PublicKey): MetadataArgs {
+  const creators: Creator[] = input.creators.map(({ address, share }) => ({
+    address,
+    share,
+    verified: address.equals(signer)
+  }));
+
+  return {
+    name: input.name,
+    symbol: input.symbol,
+    uri: input.uri,
+    sellerFeeBasisPoints: input.sellerFeeBasisPoints,
+    primarySaleHappened: false,
+    isMutable: true,
+    editionNonce: null,
+    tokenStandard: TokenStandard.NonFungible,
+    // Bubblegum verifies the collection itself in mint_to_collection_v1
+    collection: input.collectionMint ? { verified: false, key: input.collectionMint } : null,
+    uses: null,
+    tokenProgramVersion: TokenProgramVersion.Original,
+    creators
+  };
+}
+
+// mint_to_collection_v1 when a collection is set, mint_v1 otherwise. The payer is also the
+// tree creator (or delegate) and the collection update authority.
+export function createMintIx(payer: PublicKey, params: MintCompressedNftParams): TransactionInstruction {
+  const accounts = {
+    merkleTree: params.merkleTree,
+    leafOwner: params.leafOwner,
+    leafDelegate: params.leafDelegate ?? params.leafOwner,
+    payer,
+    treeCreatorOrDelegate: payer
+  };
+  const metadata = buildMetadataArgs(params.metadata, payer);
+
+  if (params.metadata.collectionMint) {
+    return createMintToCollectionV1Ix(
+      { ...accounts, collectionMint: params.metadata.collectionMint, collectionAuthority: payer },
+      metadata
+    );
+  }
+  return createMintV1Ix(accounts, metadata);
+}
+
+export async function mintCompressedNft(
+  connection: Connection,
+  payer: PublicKey,
+  signTransaction: (transaction: Transaction) => Promise<Transaction>,
+  params: MintCompressedNftParams
+): Promise<MintCompressedNftResult> {
+  try {
+    console.log('🍃 Minting compressed NFT into tree:', params.merkleTree.toString());
+
+    const transaction = new Transaction().add(createMintIx(payer, params));
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = payer;
+
+    const signedTransaction = await signTransaction(transaction);
+
+    const signature = await connection.sendRawTransaction(signedTransaction.serialize(), {
+      skipPreflight: false,
+      preflightCommitment: 'processed'
+    });
+
+    await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+
+    // The asset ID is only known once Bubblegum logs the new leaf through the noop program
+    const leaves = await getLeafSchemasFromTransaction(connection, signature);
+    const assetIds = leaves.map((leaf) => leaf.id.toString());
+
+    console.log('✅ Compressed NFT minted:', assetIds);
+    console.log('🧾 Transaction signature:', signature);
+
+    return { signature, assetIds };
+  } catch (error) {
+    throw classifyError(error, { action: 'mint compressed NFT', programIds: [BUBBLEGUM_PROGRAM_ID] });
+  }
+}
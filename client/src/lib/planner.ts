@@ -0,0 +1,159 @@
+import { Connection } from '@solana/web3.js';
+import {
+  ALL_DEPTH_SIZE_PAIRS,
+  getConcurrentMerkleTreeAccountSize,
+  isValidDepthSizePair,
+  MAX_CANOPY_DEPTH,
+  type ValidDepthSizePair
+} from './merkle-tree';
+import { estimateTreeCost, MAX_ACCOUNT_SIZE, type PriorityFee, type TreeCostBreakdown } from './costs';
+
+const PROOF_NODE_BYTES = 32;
+
+export interface PlannerInput {
+  // Total number of cNFTs the tree must hold
+  expectedMints: number;
+  // Changes to the tree expected within a single slot
+  concurrentMintsPerSlot: number;
+  // Proof bytes a marketplace transaction can carry as remaining accounts
+  maxProofBytes: number;
+}
+
+export interface PlanCandidate {
+  maxDepthSizePair: ValidDepthSizePair;
+  canopyDepth: number;
+  capacity: number;
+  proofNodes: number;
+  proofBytes: number;
+  accountSize: number;
+  cost: TreeCostBreakdown;
+  tradeoffs: string[];
+}
+
+export interface RejectedConfiguration {
+  maxDepthSizePair: ValidDepthSizePair;
+  reasons: string[];
+}
+
+export interface TreePlan {
+  recommended: PlanCandidate | null;
+  candidates: PlanCandidate[];
+  rejected: RejectedConfiguration[];
+}
+
+// Smallest canopy that keeps the proof within the composability budget
+export function getRequiredCanopyDepth(maxDepth: number, maxProofBytes: number): number {
+  return Math.max(0, maxDepth - Math.floor(maxProofBytes / PROOF_NODE_BYTES));
+}
+
+// Check a configuration against the planner's targets; returns the reasons it does not fit
+export function evaluateConfiguration(
+  maxDepth: number,
+  maxBufferSize: number,
+  canopyDepth: number,
+  input: PlannerInput
+): string[] {
+  const reasons: string[] = [];
+
+  if (!isValidDepthSizePair(maxDepth, maxBufferSize)) {
+    reasons.push(`(${maxDepth}, ${maxBufferSize}) is not a supported depth-size pair`);
+  }
+  if (Math.pow(2, maxDepth) < input.expectedMints) {
+    reasons.push(`Capacity ${Math.pow(2, maxDepth).toLocaleString()} is below ${input.expectedMints.toLocaleString()} mints`);
+  }
+  if (maxBufferSize < input.concurrentMintsPerSlot) {
+    reasons.push(`Buffer of ${maxBufferSize} cannot absorb ${input.concurrentMintsPerSlot} changes per slot`);
+  }
+  if (canopyDepth > MAX_CANOPY_DEPTH || canopyDepth >= maxDepth) {
+    reasons.push(`Proof budget needs a canopy of ${canopyDepth}, above the limit of ${Math.min(MAX_CANOPY_DEPTH, maxDepth - 1)}`);
+  } else if ((maxDepth - canopyDepth) * PROOF_NODE_BYTES > input.maxProofBytes) {
+    reasons.push(`Proof of ${(maxDepth - canopyDepth) * PROOF_NODE_BYTES} bytes exceeds the ${input.maxProofBytes} byte budget`);
+  }
+  if (getConcurrentMerkleTreeAccountSize(maxDepth, maxBufferSize, canopyDepth) > MAX_ACCOUNT_SIZE) {
+    reasons.push('Account would exceed the 10MB allocation limit');
+  }
+
+  return reasons;
+}
+
+function describeTradeoffs(
+  maxDepth: number,
+  maxBufferSize: number,
+  canopyDepth: number,
+  input: PlannerInput
+): string[] {
+  const capacity = Math.pow(2, maxDepth);
+  const proofNodes = maxDepth - canopyDepth;
+  const tradeoffs: string[] = [];
+
+  const headroom = input.expectedMints > 0 ? capacity / input.expectedMints : Infinity;
+  tradeoffs.push(
+    headroom >= 4
+      ? `${headroom === Infinity ? 'Unlimited' : `${Math.floor(headroom).toLocaleString()}x`} capacity headroom - room to grow, but you pay for unused leaves`
+      : `${headroom.toFixed(1)}x capacity headroom - tight if the drop grows`
+  );
+  tradeoffs.push(
+    maxBufferSize >= input.concurrentMintsPerSlot * 4
+      ? `Buffer of ${maxBufferSize} comfortably covers ${input.concurrentMintsPerSlot} changes per slot`
+      : `Buffer of ${maxBufferSize} leaves little margin for bursts above ${input.concurrentMintsPerSlot} changes per slot`
+  );
+  tradeoffs.push(
+    canopyDepth === 0
+      ? `No canopy - every transfer carries all ${proofNodes} proof nodes`
+      : `Canopy of ${canopyDepth} trims transfer proofs to ${proofNodes} nodes (${proofNodes * PROOF_NODE_BYTES} bytes)`
+  );
+
+  return tradeoffs;
+}
+
+// Rank every supported configuration that meets the targets, cheapest first
+export async function planTree(
+  connection: Connection,
+  input: PlannerInput,
+  priorityFee?: PriorityFee
+): Promise<TreePlan> {
+  const rejected: RejectedConfiguration[] = [];
+  const fitting: { maxDepthSizePair: ValidDepthSizePair; canopyDepth: number }[] = [];
+
+  for (const maxDepthSizePair of ALL_DEPTH_SIZE_PAIRS) {
+    const [maxDepth, maxBufferSize] = maxDepthSizePair;
+    const canopyDepth = getRequiredCanopyDepth(maxDepth, input.maxProofBytes);
+    const reasons = evaluateConfiguration(maxDepth, maxBufferSize, canopyDepth, input);
+
+    if (reasons.length > 0) {
+      rejected.push({ maxDepthSizePair, reasons });
+    } else {
+      fitting.push({ maxDepthSizePair, canopyDepth });
+    }
+  }
+
+  const candidates = await Promise.all(
+    fitting.map(async ({ maxDepthSizePair, canopyDepth }): Promise<PlanCandidate> => {
+      const [maxDepth, maxBufferSize] = maxDepthSizePair;
+      const cost = await estimateTreeCost(connection, { maxDepth, maxBufferSize, canopyDepth }, priorityFee);
+      const proofNodes = maxDepth - canopyDepth;
+
+      return {
+        maxDepthSizePair,
+        canopyDepth,
+        capacity: Math.pow(2, maxDepth),
+        proofNodes,
+        proofBytes: proofNodes * PROOF_NODE_BYTES,
+        accountSize: cost.accountSize,
+        cost,
+        tradeoffs: describeTradeoffs(maxDepth, maxBufferSize, canopyDepth, input)
+      };
+    })
+  );
+
+  // Cheapest first; on a tie prefer the larger buffer
+  candidates.sort((a, b) =>
+    a.cost.totalLamports - b.cost.totalLamports || b.maxDepthSizePair[1] - a.maxDepthSizePair[1]
+  );
+
+  return {
+    recommended: candidates[0] ?? null,
+    candidates,
+    rejected
+  };
+}
@@ -0,0 +1,82 @@
+import { Connection, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { getRentExemption, LAMPORTS_PER_SIGNATURE } from './costs';
+import { TREE_CONFIG_SIZE } from './bubblegum';
+import { getConcurrentMerkleTreeAccountSize, type CreateTreeTransaction, type MerkleTreeParams } from './merkle-tree';
+import { classifyError } from './errors';
+import { decodeTransactionError, type DecodedTransactionError } from './program-errors';
+
+export interface PreflightReport {
+  // True when the simulation succeeded and the payer can cover the total
+  ok: boolean;
+  unitsConsumed: number | null;
+  feeLamports: number;
+  // Lamports the transaction moves out of the payer besides the fee, e.g. rent for new accounts
+  rentLamports: number;
+  totalLamports: number;
+  balanceLamports: number;
+  shortfallLamports: number;
+  error: DecodedTransactionError | null;
+  logs: string[];
+}
+
+// Simulate an unsigned (or partially signed) transaction and price it for its fee payer
+export async function preflightTransaction(
+  connection: Connection,
+  transaction: Transaction,
+  rentLamports: number = 0
+): Promise<PreflightReport> {
+  const feePayer = transaction.feePayer;
+  if (!feePayer || !transaction.recentBlockhash) {
+    throw new Error('Transaction needs a fee payer and recent blockhash before preflight');
+  }
+
+  try {
+    const message = transaction.compileMessage();
+    // sigVerify is off so the wallet only has to sign once the simulation has passed
+    const [simulation, fee, balanceLamports] = await Promise.all([
+      connection.simulateTransaction(new VersionedTransaction(message), { sigVerify: false }),
+      connection.getFeeForMessage(message),
+      connection.getBalance(feePayer)
+    ]);
+
+    // A null fee means the blockhash is no longer known; fall back to the base fee for the signatures
+    const feeLamports = fee.value ?? message.header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE;
+    const totalLamports = feeLamports + rentLamports;
+    const shortfallLamports = Math.max(0, totalLamports - balanceLamports);
+    const logs = simulation.value.logs ?? [];
+    const error = decodeTransactionError(
+      simulation.value.err,
+      transaction.instructions.map((instruction) => instruction.programId),
+      logs
+    );
+
+    return {
+      ok: !error && shortfallLamports === 0,
+      unitsConsumed: simulation.value.unitsConsumed ?? null,
+      feeLamports,
+      rentLamports,
+      totalLamports,
+      balanceLamports,
+      shortfallLamports,
+      error,
+      logs
+    };
+  } catch (error) {
+    console.error('Error running transaction preflight:', error);
+    throw classifyError(error, { action: 'simulate transaction' });
+  }
+}
+
+// Tree creation funds the tree account and the TreeConfig PDA from the payer
+export async function preflightCreateTree(
+  connection: Connection,
+  built: CreateTreeTransaction,
+  params: MerkleTreeParams
+): Promise<PreflightReport> {
+  const accountSize = getConcurrentMerkleTreeAccountSize(params.maxDepth, params.maxBufferSize, params.canopyDepth);
+  const [treeRent, treeConfigRent] = await Promise.all([
+    getRentExemption(connection, accountSize),
+    getRentExemption(connection, TREE_CONFIG_SIZE)
+  ]);
+  return preflightTransaction(connection, built.transaction, treeRent + treeConfigRent);
+}
@@ -0,0 +1,83 @@
+import { ComputeBudgetProgram, Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import type { PriorityFee } from './costs';
+import { classifyError, InvalidConfig } from './errors';
+
+export type PriorityLevel = 'low' | 'medium' | 'high';
+
+// A level, or 'custom' for an explicit price in microlamports per compute unit
+export type PriorityFeeChoice = PriorityLevel | 'custom';
+
+export interface PriorityFeeEstimate {
+  // Microlamports per compute unit for each level
+  levels: Record<PriorityLevel, number>;
+  // Slots the estimate is based on (the RPC keeps the last 150)
+  slots: number;
+}
+
+// Percentile of recent per-slot fees each level pays
+export const PRIORITY_LEVEL_PERCENTILES: Record<PriorityLevel, number> = {
+  low: 25,
+  medium: 50,
+  high: 75
+};
+
+// Room for tree creation at any size; the price is charged on the limit, not on the units used
+export const DEFAULT_CREATE_TREE_COMPUTE_UNITS = 200_000;
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+// Nearest-rank percentile of an ascending list
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+// Price levels from the fees recently paid by transactions writing to these accounts, or by any
+// transaction when none are given
+export async function estimatePriorityFees(connection: Connection, accounts: PublicKey[] = []): Promise<PriorityFeeEstimate> {
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts });
+    const fees = recent.map((slot) => slot.prioritizationFee).sort((a, b) => a - b);
+    return {
+      levels: {
+        low: percentile(fees, PRIORITY_LEVEL_PERCENTILES.low),
+        medium: percentile(fees, PRIORITY_LEVEL_PERCENTILES.medium),
+        high: percentile(fees, PRIORITY_LEVEL_PERCENTILES.high)
+      },
+      slots: fees.length
+    };
+  } catch (error) {
+    console.error('Error estimating priority fees:', error);
+    throw classifyError(error, { action: 'estimate priority fees' });
+  }
+}
+
+export function resolvePriorityFee(
+  estimate: PriorityFeeEstimate | null,
+  choice: PriorityFeeChoice,
+  customMicroLamports: number,
+  computeUnitLimit: number = DEFAULT_CREATE_TREE_COMPUTE_UNITS
+): PriorityFee {
+  if (!Number.isInteger(computeUnitLimit) || computeUnitLimit < 1 || computeUnitLimit > MAX_COMPUTE_UNIT_LIMIT) {
+    throw new InvalidConfig(`Compute unit limit must be a whole number from 1 to ${MAX_COMPUTE_UNIT_LIMIT.toLocaleString()}`, 'computeUnitLimit');
+  }
+  if (choice === 'custom' && (!Number.isInteger(customMicroLamports) || customMicroLamports < 0)) {
+    throw new InvalidConfig('Custom priority fee must be a whole number of microlamports', 'microLamportsPerComputeUnit');
+  }
+  return {
+    computeUnitLimit,
+    // Without an estimate a level pays nothing extra rather than guessing
+    microLamportsPerComputeUnit: choice === 'custom' ? customMicroLamports : estimate?.levels[choice] ?? 0
+  };
+}
+
+// Compute budget instructions to put ahead of a transaction's own instructions
+export function getComputeBudgetInstructions(priorityFee: PriorityFee): TransactionInstruction[] {
+  const instructions = [ComputeBudgetProgram.setComputeUnitLimit({ units: priorityFee.computeUnitLimit })];
+  if (priorityFee.microLamportsPerComputeUnit > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee.microLamportsPerComputeUnit }));
+  }
+  return instructions;
+}
@@ -0,0 +1,235 @@
+import { ComputeBudgetProgram, PublicKey, SystemProgram, type TransactionError } from '@solana/web3.js';
+import { BUBBLEGUM_PROGRAM_ID, SPL_ACCOUNT_COMPRESSION_PROGRAM_ID } from './merkle-tree';
+
+export interface ProgramErrorInfo {
+  name: string;
+  message: string;
+}
+
+export interface DecodedTransactionError {
+  // Null for errors raised by the runtime before any instruction ran
+  instructionIndex: number | null;
+  programId: string | null;
+  programName: string | null;
+  code: number | null;
+  name: string;
+  message: string;
+}
+
+// Custom error codes from the spl-account-compression IDL
+const ACCOUNT_COMPRESSION_ERRORS: Record<number, ProgramErrorInfo> = {
+  6000: { name: 'IncorrectLeafLength', message: 'Incorrect leaf length. Expected vec of 32 bytes' },
+  6001: { name: 'ConcurrentMerkleTreeError', message: 'Concurrent merkle tree error' },
+  6002: { name: 'ZeroCopyError', message: 'Issue zero copying concurrent merkle tree data' },
+  6003: { name: 'ConcurrentMerkleTreeConstantsError', message: 'An unsupported max depth or max buffer size constant was provided' },
+  6004: { name: 'CanopyLengthMismatch', message: 'Expected a different byte length for the merkle tree canopy' },
+  6005: { name: 'IncorrectAuthority', message: 'Provided authority does not match expected tree authority' },
+  6006: { name: 'IncorrectAccountOwner', message: 'Account is owned by a different program, expected it to be owned by this program' },
+  6007: { name: 'IncorrectAccountType', message: 'Account provided has incorrect account type' },
+  6008: { name: 'LeafIndexOutOfBounds', message: 'Leaf index of concurrent merkle tree is out of bounds' },
+  6009: { name: 'CanopyNotAllocated', message: 'Tree was initialized without allocating space for the canopy' },
+  6010: { name: 'TreeAlreadyInitialized', message: 'Tree was already initialized' },
+  6011: { name: 'BatchNotInitialized', message: 'Tree header was not initialized for batch processing' },
+  6012: { name: 'CanopyRootMismatch', message: 'Canopy root does not match the root of the tree' },
+  6013: { name: 'CanopyRightmostLeafMismatch', message: 'Canopy contains nodes to the right of the rightmost leaf of the tree' }
+};
+
+// Custom error codes from the mpl-bubblegum IDL
+const BUBBLEGUM_ERRORS: Record<number, ProgramErrorInfo> = {
+  6000: { name: 'AssetOwnerMismatch', message: 'Asset Owner Does not match' },
+  6001: { name: 'PublicKeyMismatch', message: 'PublicKeyMismatch' },
+  6002: { name: 'HashingMismatch', message: 'Hashing Mismatch Within Leaf Schema' },
+  6003: { name: 'UnsupportedSchemaVersion', message: 'Unsupported Schema Version' },
+  6004: { name: 'CreatorShareTotalMustBe100', message: 'Creator shares must sum to 100' },
+  6005: { name: 'DuplicateCreatorAddress', message: 'No duplicate creator addresses in metadata' },
+  6006: { name: 'CreatorDidNotVerify', message: 'Creator did not verify the metadata' },
+  6007: { name: 'CreatorNotFound', message: 'Creator not found in creator Vec' },
+  6008: { name: 'NoCreatorsPresent', message: 'No creators in creator Vec' },
+  6009: { name: 'CreatorHashMismatch', message: 'User-provided creator Vec must result in same user-provided creator hash' },
+  6010: { name: 'DataHashMismatch', message: 'User-provided metadata must result in same user-provided data hash' },
+  6011: { name: 'CreatorsTooLong', message: 'Creators list too long' },
+  6012: { name: 'MetadataNameTooLong', message: 'Name in metadata is too long' },
+  6013: { name: 'MetadataSymbolTooLong', message: 'Symbol in metadata is too long' },
+  6014: { name: 'MetadataUriTooLong', message: 'Uri in metadata is too long' },
+  6015: { name: 'MetadataBasisPointsTooHigh', message: 'Basis points in metadata cannot exceed 10000' },
+  6016: { name: 'TreeAuthorityIncorrect', message: 'Tree creator or tree delegate must sign.' },
+  6017: { name: 'InsufficientMintCapacity', message: 'Not enough unapproved mints left' },
+  6018: { name: 'NumericalOverflowError', message: 'NumericalOverflowError' },
+  6019: { name: 'IncorrectOwner', message: 'Incorrect account owner' },
+  6020: { name: 'CollectionCannotBeVerifiedInThisInstruction', message: 'Cannot Verify Collection in this Instruction' },
+  6021: { name: 'CollectionNotFound', message: 'Collection Not Found on Metadata' },
+  6022: { name: 'AlreadyVerified', message: 'Collection item is already verified.' },
+  6023: { name: 'AlreadyUnverified', message: 'Collection item is already unverified.' },
+  6024: { name: 'UpdateAuthorityIncorrect', message: 'Incorrect leaf metadata update authority.' },
+  6025: { name: 'LeafAuthorityMustSign', message: 'This transaction must be signed by either the leaf owner or leaf delegate' },
+  6026: { name: 'CollectionMustBeSized', message: 'Collection Not Compatable with Compression, Must be Sized' },
+  6027: { name: 'MetadataMintMismatch', message: 'Metadata mint does not match collection mint' },
+  6028: { name: 'InvalidCollectionAuthority', message: 'Invalid collection authority' },
+  6029: { name: 'InvalidDelegateRecord', message: 'Invalid delegate record pda derivation' },
+  6030: { name: 'CollectionMasterEditionAccountInvalid', message: 'Edition account doesnt match collection' },
+  6031: { name: 'CollectionMustBeAUniqueMasterEdition', message: 'Collection Must Be a Unique Master Edition v2' },
+  6032: { name: 'UnknownExternalError', message: 'Could not convert external error to BubblegumError' },
+  6033: { name: 'DecompressionDisabled', message: 'Decompression is disabled for this tree.' },
+  6034: { name: 'MissingCollectionMintAccount', message: 'Missing collection mint account' },
+  6035: { name: 'MissingCollectionMetadataAccount', message: 'Missing collection metadata account' },
+  6036: { name: 'CollectionMismatch', message: 'Collection mismatch' },
+  6037: { name: 'MetadataImmutable', message: 'Metadata not mutable' },
+  6038: { name: 'PrimarySaleCanOnlyBeFlippedToTrue', message: 'Can only update primary sale to true' },
+  6039: { name: 'CreatorDidNotUnverify', message: 'Creator did not unverify the metadata' },
+  6040: { name: 'InvalidTokenStandard', message: 'Only NonFungible standard is supported' },
+  6041: { name: 'InvalidCanopySize', message: 'Canopy size should be set bigger for this tree' },
+  6042: { name: 'InvalidLogWrapper', message: 'Invalid log wrapper program' },
+  6043: { name: 'InvalidCompressionProgram', message: 'Invalid compression program' },
+  6044: { name: 'LeafMustBeDelegated', message: 'Leaf must be delegated to someone other than the leaf owner' },
+  6045: { name: 'AssetIsFrozen', message: 'Asset is frozen' },
+  6046: { name: 'AssetIsNonTransferable', message: 'Asset is non-transferable' },
+  6047: { name: 'InvalidAuthority', message: 'Invalid authority' },
+  6048: { name: 'CollectionIsFrozen', message: 'Collection is frozen' },
+  6049: { name: 'CollectionMustHaveBubblegumPlugin', message: 'Core collections must have the Bubblegum V2 plugin on them' },
+  6050: { name: 'NotAvailable', message: 'Feature not currently available' },
+  6051: { name: 'MissingCollectionAccount', message: 'Missing collection account' },
+  6052: { name: 'AssetDataLengthTooLong', message: 'Asset data length too long' },
+  6053: { name: 'AlreadyInCollection', message: 'Item is already in the collection' },
+  6054: { name: 'AlreadyNotInCollection', message: 'Item is already not in a collection' },
+  6055: { name: 'MissingMplCoreCpiSignerAccount', message: 'Missing mpl-core CPI signer account' },
+  6056: { name: 'AssetIsNotFrozen', message: 'Asset is not frozen' },
+  6057: { name: 'CollectionMustHaveRoyaltiesPlugin', message: 'Core collections must have the Royalties plugin to inherit seller fee basis points' },
+  6058: { name: 'InheritedSellerFeeCannotHaveLeafCreators', message: 'Inherited seller fee basis points cannot be used with leaf-level creators' },
+  6059: { name: 'CannotRemoveFromCollectionWithInheritedSellerFee', message: 'Cannot remove from collection while seller fee basis points are inherited' }
+};
+
+// Anchor framework errors shared by every Anchor program, below the 6000 custom range
+const ANCHOR_ERRORS: Record<number, ProgramErrorInfo> = {
+  101: { name: 'InstructionFallbackNotFound', message: 'Fallback functions are not supported' },
+  102: { name: 'InstructionDidNotDeserialize', message: 'The program could not deserialize the given instruction' },
+  2000: { name: 'ConstraintMut', message: 'A mut constraint was violated' },
+  2001: { name: 'ConstraintHasOne', message: 'A has one constraint was violated' },
+  2002: { name: 'ConstraintSigner', message: 'A signer constraint was violated' },
+  2003: { name: 'ConstraintRaw', message: 'A raw constraint was violated' },
+  2006: { name: 'ConstraintSeeds', message: 'A seeds constraint was violated' },
+  3001: { name: 'AccountDiscriminatorNotFound', message: 'No 8 byte discriminator was found on the account' },
+  3002: { name: 'AccountDiscriminatorMismatch', message: '8 byte discriminator did not match what was expected' },
+  3003: { name: 'AccountDidNotDeserialize', message: 'Failed to deserialize the account' },
+  3007: { name: 'AccountOwnedByWrongProgram', message: 'The given account is owned by a different program than expected' },
+  3008: { name: 'InvalidProgramId', message: 'Program ID was not as expected' },
+  3010: { name: 'AccountNotSigner', message: 'The given account did not sign' },
+  3012: { name: 'AccountNotInitialized', message: 'The program expected this account to be already initialized' }
+};
+
+const SYSTEM_PROGRAM_ERRORS: Record<number, ProgramErrorInfo> = {
+  0: { name: 'AccountAlreadyInUse', message: 'An account with the same address already exists' },
+  1: { name: 'ResultWithNegativeLamports', message: 'Account does not have enough SOL to perform the operation' },
+  2: { name: 'InvalidProgramId', message: 'Cannot assign account to this program id' },
+  3: { name: 'InvalidAccountDataLength', message: 'Cannot allocate account data of this length' },
+  4: { name: 'MaxSeedLengthExceeded', message: 'Length of requested seed is too long' },
+  5: { name: 'AddressWithSeedMismatch', message: 'Provided address does not match the address derived from the seed' }
+};
+
+interface ProgramErrorTable {
+  name: string;
+  errors: Record<number, ProgramErrorInfo>;
+  anchor: boolean;
+}
+
+// Built on first use: merkle-tree reaches this module through errors.ts, so its program IDs
+// are not yet initialized while this module evaluates
+let programTables: Record<string, ProgramErrorTable> | null = null;
+
+function getProgramTable(programId: PublicKey | string): ProgramErrorTable | undefined {
+  if (!programTables) {
+    programTables = {
+      [SPL_ACCOUNT_COMPRESSION_PROGRAM_ID.toBase58()]: { name: 'SPL Account Compression', errors: ACCOUNT_COMPRESSION_ERRORS, anchor: true },
+      [BUBBLEGUM_PROGRAM_ID.toBase58()]: { name: 'Bubblegum', errors: BUBBLEGUM_ERRORS, anchor: true },
+      [SystemProgram.programId.toBase58()]: { name: 'System Program', errors: SYSTEM_PROGRAM_ERRORS, anchor: false },
+      // Has no custom errors; listed so its instructions are named
+      [ComputeBudgetProgram.programId.toBase58()]: { name: 'Compute Budget', errors: {}, anchor: false }
+    };
+  }
+  return programTables[programId.toString()];
+}
+
+// Runtime errors that mean something to a user; the rest are shown by name
+const RUNTIME_ERROR_MESSAGES: Record<string, string> = {
+  AccountNotFound: 'The fee payer account does not exist - it has never held SOL on this network',
+  InsufficientFundsForFee: 'The fee payer cannot cover the transaction fee',
+  InsufficientFundsForRent: 'An account would be left below the rent-exempt minimum',
+  BlockhashNotFound: 'The transaction blockhash has expired',
+  AlreadyProcessed: 'This transaction has already been processed',
+  MissingRequiredSignature: 'A required signature is missing',
+  InvalidAccountData: 'An account has invalid data for this instruction',
+  AccountAlreadyInitialized: 'An account is already initialized',
+  ComputationalBudgetExceeded: 'The transaction ran out of compute units - raise the compute unit limit',
+  ProgramFailedToComplete: 'The program failed to complete, usually by running out of compute units'
+};
+
+export function lookupProgramError(programId: PublicKey | string, code: number): ProgramErrorInfo | null {
+  const program = getProgramTable(programId);
+  if (!program) return null;
+  return program.errors[code] ?? (program.anchor ? ANCHOR_ERRORS[code] ?? null : null);
+}
+
+// Last AnchorError message in the logs, for codes missing from the tables
+function findAnchorLogMessage(logs: string[]): string | null {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const match = logs[i].match(/AnchorError.*Error Message: (.*?)\.?$/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// Turn a simulation or confirmation error into a readable one; programIds holds each instruction's program
+export function decodeTransactionError(
+  error: TransactionError | null,
+  programIds: PublicKey[],
+  logs: string[] = []
+): DecodedTransactionError | null {
+  if (!error) return null;
+
+  const runtimeError = (name: string): DecodedTransactionError => ({
+    instructionIndex: null,
+    programId: null,
+    programName: null,
+    code: null,
+    name,
+    message: RUNTIME_ERROR_MESSAGES[name] ?? name
+  });
+
+  if (typeof error === 'string') {
+    return runtimeError(error);
+  }
+
+  const instructionError = (error as { InstructionError?: [number, string | { Custom: number }] }).InstructionError;
+  if (!instructionError) {
+    // e.g. { InsufficientFundsForRent: { account_index } }
+    return runtimeError(Object.keys(error)[0] ?? 'UnknownError');
+  }
+
+  const [instructionIndex, detail] = instructionError;
+  const programId = programIds[instructionIndex] ?? null;
+  const program = programId ? getProgramTable(programId) : undefined;
+  const base = {
+    instructionIndex,
+    programId: programId ? programId.toBase58() : null,
+    programName: program ? program.name : null
+  };
+
+  if (typeof detail === 'string') {
+    return { ...base, code: null, name: detail, message: RUNTIME_ERROR_MESSAGES[detail] ?? detail };
+  }
+
+  const code = detail.Custom;
+  const known = programId ? lookupProgramError(programId, code) : null;
+  return {
+    ...base,
+    code,
+    name: known ? known.name : `Custom(${code})`,
+    message: known ? known.message : findAnchorLogMessage(logs) ?? `Program returned custom error ${code}`
+  };
+}
+
+export function formatTransactionError(error: DecodedTransactionError): string {
+  if (error.instructionIndex === null) {
+    return error.message;
+  }
+  return `${error.programName ?? 'Instruction'} (instruction ${error.instructionIndex + 1}): ${error.message}`;
+}
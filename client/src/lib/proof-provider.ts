@@ -0,0 +1,158 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import bs58 from 'bs58';
+import {
+  getNoopEventData,
+  hashLeaf,
+  parseChangeLogEvent,
+  parseLeafSchemaEvent,
+  type ChangeLogEvent,
+  type LeafSchema
+} from './bubblegum';
+import { ConcurrentMerkleTree } from './concurrent-merkle-tree';
+import { createDasClient, type DasClientOptions } from './das';
+import { getTreeInfo } from './merkle-tree';
+
+// Everything a transfer, delegate or burn needs about the current leaf of an asset
+export interface AssetWithProof {
+  assetId: PublicKey;
+  merkleTree: PublicKey;
+  leaf: LeafSchema;
+  root: Buffer;
+  // Full proof from the leaf level up; callers trim it by the tree's canopy depth
+  proof: Buffer[];
+}
+
+export interface ProofProvider {
+  getAssetWithProof(assetId: PublicKey): Promise<AssetWithProof>;
+}
+
+function decodeHash(value: string): Buffer {
+  return Buffer.from(bs58.decode(value));
+}
+
+// Proofs from an RPC endpoint that implements the DAS API
+export function createDasProofProvider(endpoint: string, options: DasClientOptions = {}): ProofProvider {
+  const das = createDasClient(endpoint, options);
+
+  return {
+    async getAssetWithProof(assetId: PublicKey): Promise<AssetWithProof> {
+      const id = assetId.toString();
+      const [asset, assetProof] = await Promise.all([das.getAsset(id), das.getAssetProof(id)]);
+
+      if (!asset.compression?.compressed) {
+        throw new Error(`Asset ${id} is not a compressed NFT`);
+      }
+      if (asset.burnt) {
+        throw new Error(`Asset ${id} has been burned`);
+      }
+
+      const owner = new PublicKey(asset.ownership.owner);
+      return {
+        assetId,
+        merkleTree: new PublicKey(asset.compression.tree),
+        leaf: {
+          id: assetId,
+          owner,
+          delegate: asset.ownership.delegate ? new PublicKey(asset.ownership.delegate) : owner,
+          nonce: asset.compression.leaf_id,
+          dataHash: decodeHash(asset.compression.data_hash),
+          creatorHash: decodeHash(asset.compression.creator_hash)
+        },
+        root: decodeHash(assetProof.root),
+        proof: assetProof.proof.map(decodeHash)
+      };
+    }
+  };
+}
+
+export interface ReplayedTree {
+  tree: ConcurrentMerkleTree;
+  // Latest leaf schema Bubblegum logged for each asset ID
+  leaves: Map<string, LeafSchema>;
+}
+
+// Rebuild a tree by replaying every change logged in its transaction history. Fetches each
+// transaction, so this only suits trees with a modest history or RPCs without DAS support.
+export async function replayTree(connection: Connection, merkleTree: PublicKey): Promise<ReplayedTree> {
+  const account = await getTreeInfo(connection, merkleTree);
+  if (!account) {
+    throw new Error(`No concurrent merkle tree found at ${merkleTree.toString()}`);
+  }
+
+  const signatures: string[] = [];
+  let before: string | undefined;
+  while (true) {
+    const page = await connection.getSignaturesForAddress(merkleTree, { before, limit: 1000 }, 'confirmed');
+    signatures.push(...page.filter((info) => !info.err).map((info) => info.signature));
+    if (page.length < 1000) break;
+    before = page[page.length - 1].signature;
+  }
+
+  const changeLogs: ChangeLogEvent[] = [];
+  const leaves = new Map<string, LeafSchema>();
+  // Oldest first, so later leaf schemas overwrite earlier ones
+  for (let i = signatures.length - 1; i >= 0; i--) {
+    const transaction = await connection.getTransaction(signatures[i], {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) continue;
+
+    getNoopEventData(transaction).forEach((data) => {
+      const changeLog = parseChangeLogEvent(data);
+      if (changeLog && changeLog.treeId.equals(merkleTree)) {
+        changeLogs.push(changeLog);
+      }
+      const leaf = parseLeafSchemaEvent(data);
+      if (leaf) {
+        leaves.set(leaf.id.toString(), leaf);
+      }
+    });
+  }
+
+  const tree = new ConcurrentMerkleTree(account.maxDepth, account.maxBufferSize, account.canopyDepth);
+  changeLogs
+    .sort((a, b) => a.seq - b.seq)
+    // Sequence 0 is the empty tree logged at initialization
+    .filter((changeLog) => changeLog.seq > 0)
+    .forEach((changeLog) => {
+      const leaf = changeLog.path[0].node;
+      if (changeLog.index === tree.rightmostIndex) {
+        tree.append(leaf);
+      } else {
+        tree.replace(changeLog.index, leaf);
+      }
+    });
+
+  if (!tree.root.equals(account.currentRoot)) {
+    throw new Error('Replayed history does not match the on-chain root - the RPC may be missing transactions');
+  }
+
+  return { tree, leaves };
+}
+
+// Proofs computed locally from the tree's history, for RPCs without DAS support
+export function createLocalProofProvider(connection: Connection, merkleTree: PublicKey): ProofProvider {
+  return {
+    async getAssetWithProof(assetId: PublicKey): Promise<AssetWithProof> {
+      const { tree, leaves } = await replayTree(connection, merkleTree);
+
+      const leaf = leaves.get(assetId.toString());
+      if (!leaf) {
+        throw new Error(`Asset ${assetId.toString()} was not minted into tree ${merkleTree.toString()}`);
+      }
+      if (!tree.getLeaf(leaf.nonce).equals(hashLeaf(leaf))) {
+        throw new Error(`Asset ${assetId.toString()} has been burned or changed outside of Bubblegum`);
+      }
+
+      return {
+        assetId,
+        merkleTree,
+        leaf,
+        root: tree.root,
+        proof: tree.getProof(leaf.nonce, 0)
+      };
+    }
+  };
+}
@@ -0,0 +1,148 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import bs58 from 'bs58';
+import { computeRootFromProof, emptyNode } from './concurrent-merkle-tree';
+import type { DasAssetProof } from './das';
+import { classifyError } from './errors';
+import { getTreeInfo, type ConcurrentMerkleTreeAccount } from './merkle-tree';
+
+// fresh: built against the current root
+// in-changelog-window: built against a recent root the program can still fast-forward from
+// stale: its root has left the changelog buffer, or the leaf itself changed since
+// corrupt: the proof doesn't hash to its own root, or disagrees with the tree's canopy
+export type ProofVerdict = 'fresh' | 'in-changelog-window' | 'stale' | 'corrupt';
+
+export interface ProofToVerify {
+  leaf: Buffer;
+  index: number;
+  root: Buffer;
+  // Full proof from the leaf level up
+  proof: Buffer[];
+}
+
+export interface ProofVerification {
+  verdict: ProofVerdict;
+  message: string;
+  computedRoot: Buffer | null;
+  // Changes applied to the tree since the proof's root, when that root is still buffered
+  changesBehind: number | null;
+  // Null when the tree has no canopy or the proof isn't for the current root
+  canopyMatches: boolean | null;
+}
+
+// Upper proof nodes as the program reads them from the canopy. A zeroed canopy node stands for an
+// empty subtree, matching fill_in_proof_from_canopy in spl-account-compression.
+export function fillProofFromCanopy(
+  account: ConcurrentMerkleTreeAccount,
+  index: number,
+  truncatedProof: Buffer[]
+): Buffer[] {
+  const proof = truncatedProof.slice();
+  // Heap index of the subtree root the truncated proof reaches
+  let nodeIndex = Math.floor((Math.pow(2, account.maxDepth) + index) / Math.pow(2, truncatedProof.length));
+
+  while (nodeIndex > 1) {
+    const level = proof.length;
+    const canopyNode = account.canopy[(nodeIndex ^ 1) - 2];
+    proof.push(!canopyNode || canopyNode.every((byte) => byte === 0) ? emptyNode(level) : canopyNode);
+    nodeIndex = Math.floor(nodeIndex / 2);
+  }
+
+  return proof;
+}
+
+// Valid changelog entries, newest first, from the tree's ring buffer
+function getBufferedChangeLogs(account: ConcurrentMerkleTreeAccount) {
+  return Array.from({ length: account.bufferSize }, (_, stepsBack) =>
+    account.changeLogs[(account.activeIndex - stepsBack + account.maxBufferSize) % account.maxBufferSize]
+  );
+}
+
+export function verifyProof(account: ConcurrentMerkleTreeAccount, input: ProofToVerify): ProofVerification {
+  const { leaf, index, root, proof } = input;
+  const corrupt = (message: string, computedRoot: Buffer | null = null, canopyMatches: boolean | null = null): ProofVerification => ({
+    verdict: 'corrupt',
+    message,
+    computedRoot,
+    changesBehind: null,
+    canopyMatches
+  });
+
+  if (!Number.isInteger(index) || index < 0 || index >= Math.pow(2, account.maxDepth)) {
+    return corrupt(`Leaf index ${index} is outside a tree of depth ${account.maxDepth}`);
+  }
+  if (proof.length !== account.maxDepth) {
+    return corrupt(`Expected ${account.maxDepth} proof nodes, got ${proof.length}`);
+  }
+
+  const computedRoot = computeRootFromProof(leaf, index, proof);
+  if (!computedRoot.equals(root)) {
+    return corrupt('The leaf and proof path do not hash to the root the proof claims', computedRoot);
+  }
+
+  if (root.equals(account.currentRoot)) {
+    if (account.canopyDepth === 0) {
+      return { verdict: 'fresh', message: 'Proof matches the current root', computedRoot, changesBehind: 0, canopyMatches: null };
+    }
+
+    // The program ignores the upper nodes and reads them from the canopy instead
+    const truncatedLength = account.maxDepth - account.canopyDepth;
+    const filledProof = fillProofFromCanopy(account, index, proof.slice(0, truncatedLength));
+    const canopyMatches = filledProof.every((node, level) => node.equals(proof[level]));
+    if (!canopyMatches) {
+      return corrupt('Proof matches the current root but its upper nodes disagree with the on-chain canopy', computedRoot, false);
+    }
+    return { verdict: 'fresh', message: 'Proof matches the current root and canopy', computedRoot, changesBehind: 0, canopyMatches };
+  }
+
+  const changeLogs = getBufferedChangeLogs(account);
+  const changesBehind = changeLogs.findIndex((changeLog) => changeLog.root.equals(root));
+  if (changesBehind === -1) {
+    return {
+      verdict: 'stale',
+      message: `Proof root is older than the last ${account.bufferSize} changes kept in the changelog buffer`,
+      computedRoot,
+      changesBehind: null,
+      canopyMatches: null
+    };
+  }
+
+  // Fast-forwarding fails if one of the newer changes replaced this very leaf
+  if (changeLogs.slice(0, changesBehind).some((changeLog) => changeLog.index === index)) {
+    return {
+      verdict: 'stale',
+      message: 'The leaf changed after the proof was generated',
+      computedRoot,
+      changesBehind,
+      canopyMatches: null
+    };
+  }
+
+  return {
+    verdict: 'in-changelog-window',
+    message: `Proof is ${changesBehind} change${changesBehind === 1 ? '' : 's'} behind but still inside the changelog window`,
+    computedRoot,
+    changesBehind,
+    canopyMatches: null
+  };
+}
+
+// Check a getAssetProof response against the tree it names
+export async function verifyAssetProof(connection: Connection, assetProof: DasAssetProof): Promise<ProofVerification> {
+  try {
+    const account = await getTreeInfo(connection, new PublicKey(assetProof.tree_id));
+    if (!account) {
+      throw new Error(`Tree ${assetProof.tree_id} not found`);
+    }
+
+    return verifyProof(account, {
+      leaf: Buffer.from(bs58.decode(assetProof.leaf)),
+      // DAS reports the node's index in the full tree; leaves start at 2^depth
+      index: assetProof.node_index - Math.pow(2, account.maxDepth),
+      root: Buffer.from(bs58.decode(assetProof.root)),
+      proof: assetProof.proof.map((node) => Buffer.from(bs58.decode(node)))
+    });
+  } catch (error) {
+    throw classifyError(error, { action: 'verify asset proof' });
+  }
+}
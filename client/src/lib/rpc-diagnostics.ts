@@ -0,0 +1,346 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { BUBBLEGUM_PROGRAM_ID } from './merkle-tree';
+import { createDasClient, DasError } from './das';
+import { percentile } from './priority-fees';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export type DiagnosticCheckId = 'latency' | 'rateLimit' | 'version' | 'slotLag' | 'priorityFees' | 'das' | 'websocket';
+
+export interface DiagnosticCheck {
+  id: DiagnosticCheckId;
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface LatencyStats {
+  samples: number;
+  failures: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export type FeatureStatus = 'works' | 'degraded' | 'unavailable';
+
+export interface FeatureSupport {
+  feature: string;
+  status: FeatureStatus;
+  reason: string;
+}
+
+export interface RpcDiagnosticsReport {
+  endpoint: string;
+  referenceEndpoint: string | null;
+  // 0-100, weighted over the checks
+  score: number;
+  latency: LatencyStats | null;
+  slotLag: number | null;
+  solanaVersion: string | null;
+  rateLimited: number;
+  checks: DiagnosticCheck[];
+  features: FeatureSupport[];
+  finishedAt: string;
+}
+
+export interface RpcDiagnosticsOptions {
+  // Sequential getSlot calls for the latency percentiles
+  samples?: number;
+  // Endpoint on the same cluster to measure slot lag against; skipped when null
+  referenceEndpoint?: string | null;
+  websocketTimeoutMs?: number;
+  // Swap in for a mock JSON-RPC server
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_LATENCY_SAMPLES = 10;
+const DEFAULT_WEBSOCKET_TIMEOUT_MS = 5_000;
+// JSON-RPC code for an unknown method
+const METHOD_NOT_FOUND = -32601;
+
+// How much each check counts towards the score
+const CHECK_WEIGHTS: Record<DiagnosticCheckId, number> = {
+  latency: 3,
+  rateLimit: 2,
+  version: 1,
+  slotLag: 2,
+  priorityFees: 1,
+  das: 2,
+  websocket: 1
+};
+
+const STATUS_POINTS: Record<CheckStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+interface RpcResult<T> {
+  // 0 when the request never got a response
+  status: number;
+  latencyMs: number;
+  result: T | null;
+  error: { code?: number; message: string } | null;
+}
+
+// Raw JSON-RPC call, so HTTP statuses like 429 stay visible instead of being retried away by web3.js
+async function rpcCall<T>(
+  fetchFn: typeof fetch,
+  endpoint: string,
+  method: string,
+  params: unknown[] | Record<string, unknown> = []
+): Promise<RpcResult<T>> {
+  const startTime = Date.now();
+  try {
+    const response = await fetchFn(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params })
+    });
+    const latencyMs = Date.now() - startTime;
+    if (!response.ok) {
+      return { status: response.status, latencyMs, result: null, error: { message: `${response.status} ${response.statusText}` } };
+    }
+    const body: { result?: T; error?: { code?: number; message?: string } } = await response.json();
+    if (body.error) {
+      return {
+        status: response.status,
+        latencyMs,
+        result: null,
+        error: { code: body.error.code, message: body.error.message ?? JSON.stringify(body.error) }
+      };
+    }
+    return { status: response.status, latencyMs, result: body.result ?? null, error: null };
+  } catch (error) {
+    return {
+      status: 0,
+      latencyMs: Date.now() - startTime,
+      result: null,
+      error: { message: error instanceof Error ? error.message : String(error) }
+    };
+  }
+}
+
+export function getLatencyStats(latencies: number[], failures: number): LatencyStats {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    samples: latencies.length + failures,
+    failures,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+  };
+}
+
+// Resolves true once a slot notification arrives over the websocket
+function checkWebsocket(endpoint: string, timeoutMs: number): Promise<boolean> {
+  const connection = new Connection(endpoint, 'confirmed');
+  return new Promise((resolve) => {
+    let subscriptionId: number | null = null;
+    const finish = (ok: boolean) => {
+      clearTimeout(timer);
+      if (subscriptionId !== null) {
+        connection.removeSlotChangeListener(subscriptionId).catch(() => undefined);
+        subscriptionId = null;
+      }
+      resolve(ok);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    try {
+      subscriptionId = connection.onSlotChange(() => finish(true));
+    } catch {
+      finish(false);
+    }
+  });
+}
+
+const methodMissing = (error: { code?: number; message: string } | null) =>
+  !!error && (error.code === METHOD_NOT_FOUND || /method not found|not supported|unknown method/i.test(error.message));
+
+// Which parts of the app the endpoint can serve, from the check results
+function getFeatureSupport(checks: Record<DiagnosticCheckId, DiagnosticCheck>): FeatureSupport[] {
+  const coreDown = checks.latency.status === 'fail';
+  const unavailable = (feature: string, reason: string): FeatureSupport => ({ feature, status: 'unavailable', reason });
+
+  if (coreDown) {
+    return ['Tree creation and minting', 'Tree inspection and history', 'Batch minting', 'Transfer and burn', 'Tree contents', 'Priority fee recommendations']
+      .map((feature) => unavailable(feature, 'The endpoint does not answer basic requests'));
+  }
+
+  const features: FeatureSupport[] = [];
+
+  features.push(
+    checks.slotLag.status === 'fail'
+      ? { feature: 'Tree creation and minting', status: 'degraded', reason: 'The node is far behind the cluster, so blockhashes may expire before landing' }
+      : checks.websocket.status === 'fail'
+        ? { feature: 'Tree creation and minting', status: 'degraded', reason: 'No websocket, so confirmations fall back to slower polling' }
+        : { feature: 'Tree creation and minting', status: 'works', reason: 'Core RPC methods answer in time' }
+  );
+
+  features.push({ feature: 'Tree inspection and history', status: 'works', reason: 'Uses account and signature lookups every RPC serves' });
+
+  features.push(
+    checks.rateLimit.status === 'pass'
+      ? { feature: 'Batch minting', status: 'works', reason: 'No rate limiting seen during the latency run' }
+      : { feature: 'Batch minting', status: 'degraded', reason: 'The endpoint rate limits, so large batches will stall and retry' }
+  );
+
+  if (checks.das.status === 'pass') {
+    features.push({ feature: 'Transfer and burn', status: 'works', reason: 'DAS serves the asset proofs these need' });
+    features.push({ feature: 'Tree contents', status: 'works', reason: 'DAS can list the assets in a tree' });
+  } else {
+    features.push(unavailable('Transfer and burn', 'Needs DAS getAssetProof, which this endpoint does not serve'));
+    features.push(unavailable('Tree contents', 'Needs DAS searchAssets, which this endpoint does not serve'));
+  }
+
+  features.push(
+    checks.priorityFees.status === 'pass'
+      ? { feature: 'Priority fee recommendations', status: 'works', reason: 'getPriorityFeeEstimate is available' }
+      : checks.priorityFees.status === 'warn'
+        ? { feature: 'Priority fee recommendations', status: 'degraded', reason: 'Only getRecentPrioritizationFees, so levels are estimated locally' }
+        : unavailable('Priority fee recommendations', 'No prioritization fee method answered')
+  );
+
+  return features;
+}
+
+// Run the whole suite against one endpoint; individual check failures end up in the report, not as throws
+export async function runRpcDiagnostics(
+  endpoint: string,
+  options: RpcDiagnosticsOptions = {}
+): Promise<RpcDiagnosticsReport> {
+  const fetchFn = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const samples = options.samples ?? DEFAULT_LATENCY_SAMPLES;
+  const referenceEndpoint = options.referenceEndpoint ?? null;
+
+  // Sequential on purpose: concurrent calls would measure the client's queue, not the endpoint
+  const latencies: number[] = [];
+  let failures = 0;
+  let rateLimited = 0;
+  let retryAfter: string | null = null;
+  for (let i = 0; i < samples; i++) {
+    const call = await rpcCall<number>(fetchFn, endpoint, 'getSlot');
+    if (call.status === 429) {
+      rateLimited++;
+    }
+    if (call.error) {
+      failures++;
+    } else {
+      latencies.push(call.latencyMs);
+    }
+  }
+  if (rateLimited > 0) {
+    // One more request to read how long the provider wants us to back off
+    const response = await fetchFn(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getHealth' })
+    }).catch(() => null);
+    retryAfter = response?.headers.get('retry-after') ?? null;
+  }
+  const latency = getLatencyStats(latencies, failures);
+
+  const checks = {} as Record<DiagnosticCheckId, DiagnosticCheck>;
+
+  checks.latency = latencies.length === 0
+    ? { id: 'latency', label: 'Latency', status: 'fail', detail: `All ${samples} getSlot calls failed` }
+    : {
+        id: 'latency',
+        label: 'Latency',
+        status: latency.p90 <= 500 && failures === 0 ? 'pass' : latency.p90 <= 1500 ? 'warn' : 'fail',
+        detail: `p50 ${latency.p50} ms, p90 ${latency.p90} ms, p99 ${latency.p99} ms over ${latency.samples} calls` +
+          (failures > 0 ? ` (${failures} failed)` : '')
+      };
+
+  checks.rateLimit = rateLimited === 0
+    ? { id: 'rateLimit', label: 'Rate limits', status: 'pass', detail: `No 429 responses in ${samples} sequential calls` }
+    : {
+        id: 'rateLimit',
+        label: 'Rate limits',
+        status: rateLimited >= samples / 2 ? 'fail' : 'warn',
+        detail: `${rateLimited} of ${samples} calls answered 429 Too Many Requests` + (retryAfter ? `, Retry-After ${retryAfter}s` : '')
+      };
+
+  const [version, slot, referenceSlot, feeEstimate, recentFees, dasResult, websocketOk] = await Promise.all([
+    rpcCall<{ 'solana-core': string }>(fetchFn, endpoint, 'getVersion'),
+    rpcCall<number>(fetchFn, endpoint, 'getSlot', [{ commitment: 'confirmed' }]),
+    referenceEndpoint ? rpcCall<number>(fetchFn, referenceEndpoint, 'getSlot', [{ commitment: 'confirmed' }]) : Promise.resolve(null),
+    rpcCall<{ priorityFeeEstimate?: number }>(fetchFn, endpoint, 'getPriorityFeeEstimate', [
+      { accountKeys: [BUBBLEGUM_PROGRAM_ID.toBase58()], options: { recommended: true } }
+    ]),
+    rpcCall<unknown[]>(fetchFn, endpoint, 'getRecentPrioritizationFees', [[BUBBLEGUM_PROGRAM_ID.toBase58()]]),
+    createDasClient(endpoint, { fetch: fetchFn })
+      .getAssetsByOwner(PublicKey.default.toBase58(), { limit: 1, page: 1 })
+      .then(() => null, (error: unknown) => error),
+    checkWebsocket(endpoint, options.websocketTimeoutMs ?? DEFAULT_WEBSOCKET_TIMEOUT_MS)
+  ]);
+
+  const solanaVersion = version.result?.['solana-core'] ?? null;
+  checks.version = solanaVersion
+    ? { id: 'version', label: 'Node version', status: 'pass', detail: `solana-core ${solanaVersion}` }
+    : { id: 'version', label: 'Node version', status: 'warn', detail: `getVersion failed: ${version.error?.message ?? 'empty result'}` };
+
+  let slotLag: number | null = null;
+  if (!referenceSlot) {
+    checks.slotLag = { id: 'slotLag', label: 'Slot lag', status: 'warn', detail: 'Skipped - no reference endpoint for this cluster' };
+  } else if (slot.result === null || referenceSlot.result === null) {
+    checks.slotLag = {
+      id: 'slotLag',
+      label: 'Slot lag',
+      status: 'warn',
+      detail: `Could not compare slots: ${(slot.error ?? referenceSlot.error)?.message ?? 'empty result'}`
+    };
+  } else {
+    slotLag = Math.max(0, referenceSlot.result - slot.result);
+    checks.slotLag = {
+      id: 'slotLag',
+      label: 'Slot lag',
+      status: slotLag <= 10 ? 'pass' : slotLag <= 100 ? 'warn' : 'fail',
+      detail: `${slotLag} slot${slotLag === 1 ? '' : 's'} behind the reference (slot ${slot.result.toLocaleString()})`
+    };
+  }
+
+  checks.priorityFees = feeEstimate.result !== null
+    ? { id: 'priorityFees', label: 'Priority fees', status: 'pass', detail: 'getPriorityFeeEstimate supported' }
+    : recentFees.result !== null
+      ? {
+          id: 'priorityFees',
+          label: 'Priority fees',
+          status: 'warn',
+          detail: methodMissing(feeEstimate.error)
+            ? 'getPriorityFeeEstimate not supported, getRecentPrioritizationFees works'
+            : `getPriorityFeeEstimate failed (${feeEstimate.error?.message ?? 'empty result'}), getRecentPrioritizationFees works`
+        }
+      : { id: 'priorityFees', label: 'Priority fees', status: 'fail', detail: 'Neither prioritization fee method answered' };
+
+  checks.das = dasResult === null
+    ? { id: 'das', label: 'DAS API', status: 'pass', detail: 'getAssetsByOwner answered' }
+    : {
+        id: 'das',
+        label: 'DAS API',
+        status: 'fail',
+        detail: dasResult instanceof DasError && dasResult.code === METHOD_NOT_FOUND
+          ? 'DAS methods are not served by this endpoint'
+          : `DAS request failed: ${dasResult instanceof Error ? dasResult.message : String(dasResult)}`
+      };
+
+  checks.websocket = websocketOk
+    ? { id: 'websocket', label: 'Websocket', status: 'pass', detail: 'Slot subscription delivered a notification' }
+    : { id: 'websocket', label: 'Websocket', status: 'fail', detail: 'No slot notification arrived over the websocket' };
+
+  const ids = Object.keys(CHECK_WEIGHTS) as DiagnosticCheckId[];
+  const totalWeight = ids.reduce((sum, id) => sum + CHECK_WEIGHTS[id], 0);
+  const earned = ids.reduce((sum, id) => sum + CHECK_WEIGHTS[id] * STATUS_POINTS[checks[id].status], 0);
+
+  return {
+    endpoint,
+    referenceEndpoint,
+    score: Math.round((earned / totalWeight) * 100),
+    latency: latencies.length > 0 ? latency : null,
+    slotLag,
+    solanaVersion,
+    rateLimited,
+    checks: ids.map((id) => checks[id]),
+    features: getFeatureSupport(checks),
+    finishedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,76 @@
+import type { Commitment, ConnectionConfig } from '@solana/web3.js';
+
+// After failing over, go back to the primary once it has had this long to recover
+const PRIMARY_RETRY_MS = 60_000;
+
+// Statuses worth trying the next endpoint for; auth and request errors would fail there too
+const isTransientStatus = (status: number) => status === 429 || status >= 500;
+
+// A fetch for web3.js that sends each JSON-RPC request to the first healthy endpoint, primary first.
+// Only HTTP requests fail over; websocket subscriptions stay on the primary.
+export function createFailoverFetch(
+  endpoints: string[],
+  onActiveEndpointChange?: (endpoint: string) => void
+): typeof fetch {
+  if (endpoints.length === 0) {
+    throw new Error('At least one RPC endpoint is required');
+  }
+
+  let active = 0;
+  let failedOverAt = 0;
+
+  const setActive = (index: number) => {
+    if (index === active) {
+      return;
+    }
+    active = index;
+    failedOverAt = Date.now();
+    onActiveEndpointChange?.(endpoints[index]);
+  };
+
+  return async (input, init) => {
+    if (active !== 0 && Date.now() - failedOverAt > PRIMARY_RETRY_MS) {
+      setActive(0);
+    }
+
+    let lastError: unknown = null;
+    for (let attempt = 0; attempt < endpoints.length; attempt++) {
+      const index = (active + attempt) % endpoints.length;
+      const isLast = attempt === endpoints.length - 1;
+      try {
+        // web3.js always posts to its own endpoint, so the request is redirected rather than rewritten
+        const response = await fetch(endpoints[index], init);
+        if (isTransientStatus(response.status) && !isLast) {
+          console.warn(`RPC ${index === 0 ? 'primary' : 'fallback'} answered ${response.status}, trying next endpoint`);
+          continue;
+        }
+        setActive(index);
+        return response;
+      } catch (error) {
+        console.warn(`RPC ${index === 0 ? 'primary' : 'fallback'} unreachable:`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  };
+}
+
+export function createFailoverConfig(
+  endpoints: string[],
+  onActiveEndpointChange?: (endpoint: string) => void,
+  commitment: Commitment = 'confirmed'
+): ConnectionConfig {
+  // A single endpoint has nothing to fail over to, so keep the default fetch
+  return endpoints.length > 1
+    ? { commitment, fetch: createFailoverFetch(endpoints, onActiveEndpointChange) }
+    : { commitment };
+}
+
+// Host only, so API keys in the path or query never reach the UI
+export function getEndpointHost(endpoint: string): string {
+  try {
+    return new URL(endpoint).host;
+  } catch {
+    return endpoint;
+  }
+}
@@ -0,0 +1,151 @@
+import { Connection, PublicKey, type TransactionSignature } from '@solana/web3.js';
+import { classifyError, fromTransactionError, TransactionExpired } from './errors';
+
+export type SendStatus = 'sent' | 'processed' | 'confirmed' | 'finalized';
+
+export interface SendProgress {
+  status: SendStatus;
+  signature: TransactionSignature;
+  // Times the raw transaction has been sent, the first send included
+  sends: number;
+  // Blocks left before the blockhash expires, when last checked
+  blocksRemaining: number | null;
+}
+
+export interface SendRawTransactionOptions {
+  // Of the blockhash the transaction was signed with, not of a later one
+  lastValidBlockHeight: number;
+  // Resolve once the transaction reaches this commitment
+  commitment?: 'confirmed' | 'finalized';
+  rebroadcastIntervalMs?: number;
+  // Program of each instruction, to decode a failed transaction's error
+  programIds?: PublicKey[];
+  onProgress?: (progress: SendProgress) => void;
+}
+
+export const DEFAULT_REBROADCAST_INTERVAL_MS = 2_000;
+// Finalization trails confirmation by about 32 slots
+const FINALIZATION_TIMEOUT_MS = 60_000;
+// Status polls that may fail in a row before giving up; single failures are just skipped
+const MAX_POLL_FAILURES = 5;
+
+const STATUS_ORDER: SendStatus[] = ['sent', 'processed', 'confirmed', 'finalized'];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A failed transaction's error, decoded with its logs
+async function getFailure(connection: Connection, signature: string, error: Parameters<typeof fromTransactionError>[0], programIds: PublicKey[]) {
+  const failed = await connection
+    .getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 })
+    .catch(() => null);
+  return fromTransactionError(error, programIds, failed?.meta?.logMessages ?? []);
+}
+
+// Send a signed transaction and keep re-sending it until it reaches the commitment or its blockhash expires.
+// Validators drop transactions under load; re-sending the same bytes can never execute them twice.
+export async function sendAndConfirmRawTransaction(
+  connection: Connection,
+  rawTransaction: Buffer | Uint8Array,
+  options: SendRawTransactionOptions
+): Promise<TransactionSignature> {
+  const {
+    lastValidBlockHeight,
+    commitment = 'confirmed',
+    rebroadcastIntervalMs = DEFAULT_REBROADCAST_INTERVAL_MS,
+    programIds = [],
+    onProgress
+  } = options;
+
+  let signature: TransactionSignature;
+  try {
+    // Preflight only on the first send; a re-send could fail it just for being processed already
+    signature = await connection.sendRawTransaction(rawTransaction, {
+      skipPreflight: false,
+      preflightCommitment: 'processed',
+      maxRetries: 0
+    });
+  } catch (error) {
+    throw classifyError(error, { action: 'send transaction', programIds });
+  }
+
+  let sends = 1;
+  let status: SendStatus = 'sent';
+  let blocksRemaining: number | null = null;
+  onProgress?.({ status, signature, sends, blocksRemaining });
+
+  let pollFailures = 0;
+  while (true) {
+    await sleep(rebroadcastIntervalMs);
+
+    let signatureStatus;
+    let blockHeight: number;
+    try {
+      [{ value: [signatureStatus] }, blockHeight] = await Promise.all([
+        connection.getSignatureStatuses([signature]),
+        connection.getBlockHeight('confirmed')
+      ]);
+      pollFailures = 0;
+    } catch (error) {
+      if (++pollFailures >= MAX_POLL_FAILURES) {
+        throw classifyError(error, { action: 'confirm transaction', programIds });
+      }
+      console.warn('Transaction status check failed, retrying:', error);
+      continue;
+    }
+
+    if (signatureStatus?.err) {
+      throw await getFailure(connection, signature, signatureStatus.err, programIds);
+    }
+
+    const reached = signatureStatus?.confirmationStatus;
+    blocksRemaining = Math.max(0, lastValidBlockHeight - blockHeight);
+    if (reached && STATUS_ORDER.indexOf(reached) > STATUS_ORDER.indexOf(status)) {
+      status = reached;
+      onProgress?.({ status, signature, sends, blocksRemaining });
+    }
+    if (STATUS_ORDER.indexOf(status) >= STATUS_ORDER.indexOf(commitment)) {
+      return signature;
+    }
+
+    if (blockHeight > lastValidBlockHeight) {
+      // Past the last valid height nothing new can land, but a send from just before may still show up
+      const { value: [finalStatus] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+      if (finalStatus?.err) {
+        throw await getFailure(connection, signature, finalStatus.err, programIds);
+      }
+      if (finalStatus?.confirmationStatus && finalStatus.confirmationStatus !== 'processed') {
+        onProgress?.({ status: finalStatus.confirmationStatus, signature, sends, blocksRemaining });
+        return signature;
+      }
+      throw new TransactionExpired('The transaction expired before it was confirmed', signature);
+    }
+
+    // Only until it is confirmed; a processed transaction can still be dropped with its fork
+    if (status !== 'confirmed') {
+      sends++;
+      connection
+        .sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+        .catch((error) => console.warn('Rebroadcast failed:', error));
+      onProgress?.({ status, signature, sends, blocksRemaining });
+    }
+  }
+}
+
+// Follow a confirmed transaction to finalization; false if it did not finalize in time
+export async function waitForFinalization(
+  connection: Connection,
+  signature: TransactionSignature,
+  onProgress?: (status: SendStatus) => void,
+  pollIntervalMs: number = DEFAULT_REBROADCAST_INTERVAL_MS
+): Promise<boolean> {
+  const deadline = Date.now() + FINALIZATION_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const { value: [signatureStatus] } = await connection.getSignatureStatuses([signature]);
+    if (signatureStatus?.confirmationStatus === 'finalized') {
+      onProgress?.('finalized');
+      return true;
+    }
+    await sleep(pollIntervalMs);
+  }
+  return false;
+}
@@ -0,0 +1,23 @@
+import { PACKET_DATA_SIZE, PublicKey, Transaction, TransactionInstruction } from '@solana/web3.js';
+
+// Any valid blockhash works for sizing; the real one is set right before signing
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+// Serialized size of a legacy transaction: compact signature count, 64 bytes per signature, message
+export function getTransactionSize(instructions: TransactionInstruction[], feePayer: PublicKey): number {
+  const transaction = new Transaction({
+    feePayer,
+    blockhash: PLACEHOLDER_BLOCKHASH,
+    lastValidBlockHeight: 0
+  }).add(...instructions);
+
+  const message = transaction.compileMessage();
+  const signatureCount = message.header.numRequiredSignatures;
+  const compactLength = signatureCount < 0x80 ? 1 : signatureCount < 0x4000 ? 2 : 3;
+
+  return compactLength + signatureCount * 64 + message.serialize().length;
+}
+
+export function fitsInTransaction(instructions: TransactionInstruction[], feePayer: PublicKey): boolean {
+  return getTransactionSize(instructions, feePayer) <= PACKET_DATA_SIZE;
+}
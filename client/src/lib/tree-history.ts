@@ -0,0 +1,173 @@
+import { Connection, PublicKey, type VersionedTransactionResponse } from '@solana/web3.js';
+import { Buffer } from 'buffer';
+import bs58 from 'bs58';
+import { getNoopEventData, parseChangeLogEvent } from './bubblegum';
+import { classifyError } from './errors';
+import { BUBBLEGUM_PROGRAM_ID } from './merkle-tree';
+
+// Bubblegum instructions that touch a tree, keyed by the hex of their Anchor discriminator
+const BUBBLEGUM_INSTRUCTIONS: Record<string, string> = {
+  a553888e59ca2fdc: 'create_tree',
+  '9162c076b8937668': 'mint_v1',
+  '9912b22fc59e560f': 'mint_to_collection_v1',
+  a334c8e78c0345ba: 'transfer',
+  '5a934bb255580489': 'delegate',
+  '746e1d386bdb2a5d': 'burn',
+  b80c569546c461e1: 'redeem',
+  '6f4ce83227af30f2': 'cancel_redeem',
+  '36554c46e4faa451': 'decompress_v1',
+  fd764225be319a66: 'set_tree_delegate',
+  '34116084470455c2': 'verify_creator',
+  '6bb2392769737098': 'unverify_creator',
+  '387165fd4f377aa9': 'verify_collection',
+  fafb2a6a2989baa8: 'unverify_collection',
+  ebf279d89eeab4ea: 'set_and_verify_collection',
+  aab62bef614ee1ba: 'update_metadata'
+};
+
+export interface TreeChange {
+  leafIndex: number;
+  // Base58 root after the change
+  root: string;
+  seq: number;
+}
+
+// Plain data only, so entries can be cached in IndexedDB and exported as is
+export interface TreeHistoryEntry {
+  signature: string;
+  slot: number;
+  // Unix seconds, null when the RPC doesn't know the block time
+  blockTime: number | null;
+  failed: boolean;
+  instructions: string[];
+  changes: TreeChange[];
+}
+
+export interface TreeHistoryPage {
+  entries: TreeHistoryEntry[];
+  // Pass as `before` to load the next, older page; null once the history is exhausted
+  nextBefore: string | null;
+}
+
+// Storage for decoded entries; finalized transactions never change, so entries are cached forever
+export interface TreeHistoryCache {
+  // Entries are per tree: one transaction can change several trees
+  getEntries(tree: string, signatures: string[]): Promise<Map<string, TreeHistoryEntry>>;
+  putEntries(tree: string, entries: TreeHistoryEntry[]): Promise<void>;
+}
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 25;
+
+export function decodeBubblegumInstruction(data: Uint8Array): string {
+  return BUBBLEGUM_INSTRUCTIONS[Buffer.from(data.subarray(0, 8)).toString('hex')] ?? 'unknown';
+}
+
+// Decode the Bubblegum instructions, called directly or through CPI, and the tree's changelog events
+export function parseTreeTransaction(
+  merkleTree: PublicKey,
+  signature: string,
+  transaction: VersionedTransactionResponse
+): TreeHistoryEntry {
+  const message = transaction.transaction.message;
+  const accountKeys = message.getAccountKeys({ accountKeysFromLookups: transaction.meta?.loadedAddresses });
+  const isBubblegum = (programIdIndex: number) => !!accountKeys.get(programIdIndex)?.equals(BUBBLEGUM_PROGRAM_ID);
+
+  const instructions = [
+    ...message.compiledInstructions
+      .filter((instruction) => isBubblegum(instruction.programIdIndex))
+      .map((instruction) => decodeBubblegumInstruction(instruction.data)),
+    ...(transaction.meta?.innerInstructions ?? [])
+      .flatMap((inner) => inner.instructions)
+      .filter((instruction) => isBubblegum(instruction.programIdIndex))
+      .map((instruction) => decodeBubblegumInstruction(bs58.decode(instruction.data)))
+  ];
+
+  const changes = getNoopEventData(transaction).flatMap((data): TreeChange[] => {
+    const event = parseChangeLogEvent(data);
+    if (!event || !event.treeId.equals(merkleTree)) {
+      return [];
+    }
+    return [{ leafIndex: event.index, root: bs58.encode(event.path[event.path.length - 1].node), seq: event.seq }];
+  });
+
+  return {
+    signature,
+    slot: transaction.slot,
+    blockTime: transaction.blockTime ?? null,
+    failed: !!transaction.meta?.err,
+    instructions,
+    changes
+  };
+}
+
+// One page of a tree's finalized history, newest first
+export async function getTreeHistoryPage(
+  connection: Connection,
+  merkleTree: PublicKey,
+  options: { before?: string; limit?: number } = {},
+  cache?: TreeHistoryCache
+): Promise<TreeHistoryPage> {
+  try {
+    const limit = options.limit ?? DEFAULT_HISTORY_PAGE_SIZE;
+    const signatureInfos = await connection.getSignaturesForAddress(
+      merkleTree,
+      { before: options.before, limit },
+      'finalized'
+    );
+    const signatures = signatureInfos.map((info) => info.signature);
+
+    const cached = cache ? await cache.getEntries(merkleTree.toString(), signatures) : new Map<string, TreeHistoryEntry>();
+    const missing = signatures.filter((signature) => !cached.has(signature));
+
+    const fetched: TreeHistoryEntry[] = [];
+    if (missing.length > 0) {
+      const transactions = await connection.getTransactions(missing, {
+        commitment: 'finalized',
+        maxSupportedTransactionVersion: 0
+      });
+      transactions.forEach((transaction, i) => {
+        if (transaction) {
+          fetched.push(parseTreeTransaction(merkleTree, missing[i], transaction));
+        }
+      });
+      if (cache && fetched.length > 0) {
+        await cache.putEntries(merkleTree.toString(), fetched);
+      }
+    }
+
+    const bySignature = new Map(cached);
+    fetched.forEach((entry) => bySignature.set(entry.signature, entry));
+
+    return {
+      entries: signatures
+        .map((signature) => bySignature.get(signature))
+        .filter((entry): entry is TreeHistoryEntry => !!entry),
+      nextBefore: signatureInfos.length < limit ? null : signatures[signatures.length - 1]
+    };
+  } catch (error) {
+    throw classifyError(error, { action: 'load tree history' });
+  }
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per leaf change, or per transaction when it changed no leaves
+export function treeHistoryToCsv(entries: TreeHistoryEntry[]): string {
+  const header = ['signature', 'slot', 'block_time', 'status', 'instructions', 'leaf_index', 'seq', 'new_root'];
+  const rows = entries.flatMap((entry) => {
+    const base = [
+      entry.signature,
+      String(entry.slot),
+      entry.blockTime === null ? '' : new Date(entry.blockTime * 1000).toISOString(),
+      entry.failed ? 'failed' : 'success',
+      entry.instructions.join(' ')
+    ];
+    return entry.changes.length === 0
+      ? [[...base, '', '', '']]
+      : entry.changes.map((change) => [...base, String(change.leafIndex), String(change.seq), change.root]);
+  });
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n');
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  REGISTRY_SCHEMA_VERSION,
+  createEmptyRegistry,
+  importTreeRegistry,
+  loadTreeRegistry,
+  migrateRegistry,
+  saveTreeRegistry,
+  type RegisteredTree
+} from './tree-registry';
+
+const TREE: RegisteredTree = {
+  address: 'Ei9Nq5UA48vfuhCdPgzddVaKrX4YZxtCgvfjnTKvPuv7',
+  treeConfigAddress: 'HhRuWUkVLSVkPhSK1dSrdHn8pCXwDEs8dXmjVLX2cTaP',
+  network: 'devnet',
+  maxDepth: 14,
+  maxBufferSize: 64,
+  canopyDepth: 0,
+  creationSignature: null,
+  source: 'created',
+  label: 'Drops',
+  notes: '',
+  addedAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('migrateRegistry', () => {
+  it('accepts a current registry', () => {
+    const registry = { schemaVersion: REGISTRY_SCHEMA_VERSION, trees: [TREE] };
+    expect(migrateRegistry(JSON.parse(JSON.stringify(registry)))).toEqual(registry);
+  });
+
+  it('rejects data that is not a registry', () => {
+    for (const data of [null, 'registry', [], { trees: [] }, { schemaVersion: '1', trees: [] }, { schemaVersion: 1, trees: {} }]) {
+      expect(() => migrateRegistry(data)).toThrow(/Not a tree registry/);
+    }
+  });
+
+  it('rejects a newer schema version', () => {
+    expect(() => migrateRegistry({ schemaVersion: REGISTRY_SCHEMA_VERSION + 1, trees: [] })).toThrow(/newer than this app supports/);
+  });
+
+  it('rejects corrupt entries', () => {
+    const corrupt = [
+      { ...TREE, address: 'not a key' },
+      { ...TREE, maxDepth: '14' },
+      { ...TREE, source: 'stolen' },
+      { ...TREE, label: undefined },
+      'tree'
+    ];
+    for (const tree of corrupt) {
+      expect(() => migrateRegistry({ schemaVersion: REGISTRY_SCHEMA_VERSION, trees: [TREE, tree] })).toThrow(/Invalid tree registry: 1/);
+    }
+  });
+});
+
+describe('loadTreeRegistry', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips a saved registry', () => {
+    const registry = { schemaVersion: REGISTRY_SCHEMA_VERSION, trees: [TREE] };
+    saveTreeRegistry(registry);
+    expect(loadTreeRegistry()).toEqual(registry);
+  });
+
+  it('backs up a corrupt registry and starts empty', () => {
+    const stored = JSON.stringify({ schemaVersion: REGISTRY_SCHEMA_VERSION, trees: [{ ...TREE, maxBufferSize: null }] });
+    storage.set('soltree:tree-registry', stored);
+
+    expect(loadTreeRegistry()).toEqual(createEmptyRegistry());
+    expect(storage.get('soltree:tree-registry:backup')).toBe(stored);
+  });
+});
+
+describe('importTreeRegistry', () => {
+  it('fills in defaults and reports invalid entries', () => {
+    const minimal = { address: TREE.address, network: 'mainnet-beta', maxDepth: 20, maxBufferSize: 256, canopyDepth: 10 };
+    const json = JSON.stringify({
+      schemaVersion: REGISTRY_SCHEMA_VERSION,
+      trees: [minimal, { ...minimal, address: 'bad' }, { ...minimal, canopyDepth: 1.5 }, 42]
+    });
+
+    const { registry, added, errors } = importTreeRegistry(createEmptyRegistry(), json);
+    expect(added).toBe(1);
+    expect(registry.trees).toHaveLength(1);
+    expect(registry.trees[0]).toMatchObject({ ...minimal, source: 'imported', label: '', notes: '', creationSignature: null });
+    expect(registry.trees[0].treeConfigAddress).toBeTruthy();
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^Tree 2: address: Invalid base58 public key/);
+    expect(errors[1]).toMatch(/^Tree 3: canopyDepth/);
+    expect(errors[2]).toMatch(/^Tree 4: /);
+  });
+
+  it('keeps existing labels and notes', () => {
+    const existing = { schemaVersion: REGISTRY_SCHEMA_VERSION, trees: [TREE] };
+    const json = JSON.stringify({ schemaVersion: REGISTRY_SCHEMA_VERSION, trees: [{ ...TREE, label: 'Other', notes: 'imported' }] });
+
+    const { registry, added } = importTreeRegistry(existing, json);
+    expect(added).toBe(0);
+    expect(registry.trees).toEqual([{ ...TREE, notes: 'imported' }]);
+  });
+});
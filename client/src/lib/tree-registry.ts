@@ -0,0 +1,267 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { getTreeAuthority, getTreeInfo } from './merkle-tree';
+
+// Bump together with a migration whenever the stored shape changes
+export const REGISTRY_SCHEMA_VERSION = 1;
+const REGISTRY_STORAGE_KEY = 'soltree:tree-registry';
+
+export interface RegisteredTree {
+  address: string;
+  treeConfigAddress: string;
+  network: string;
+  maxDepth: number;
+  maxBufferSize: number;
+  canopyDepth: number;
+  // Null for trees imported by address
+  creationSignature: string | null;
+  source: 'created' | 'imported';
+  label: string;
+  notes: string;
+  // ISO timestamp
+  addedAt: string;
+}
+
+export interface TreeRegistry {
+  schemaVersion: number;
+  trees: RegisteredTree[];
+}
+
+export type RegistrySortKey = 'addedAt' | 'label' | 'network' | 'capacity';
+
+export interface TreeFillLevel {
+  minted: number;
+  capacity: number;
+}
+
+const publicKeySchema = z.string().refine((value) => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid base58 public key');
+
+// Any schema version: entries are only checked once migrated to the current shape
+const registryDataSchema = z.object({
+  schemaVersion: z.number().int().nonnegative(),
+  trees: z.array(z.unknown())
+});
+
+type RegistryData = z.infer<typeof registryDataSchema>;
+
+const registeredTreeSchema = z.object({
+  address: publicKeySchema,
+  treeConfigAddress: publicKeySchema,
+  network: z.string().min(1),
+  maxDepth: z.number().int().positive(),
+  maxBufferSize: z.number().int().positive(),
+  canopyDepth: z.number().int().nonnegative(),
+  creationSignature: z.string().nullable(),
+  source: z.enum(['created', 'imported']),
+  label: z.string(),
+  notes: z.string(),
+  addedAt: z.string()
+});
+
+// Exported files may be hand-edited; everything but the address, network and parameters has a default
+const importedTreeSchema = registeredTreeSchema.partial().required({
+  address: true,
+  network: true,
+  maxDepth: true,
+  maxBufferSize: true,
+  canopyDepth: true
+});
+
+// Upgrades from version N (the key) to N + 1, applied in order on load and import
+const MIGRATIONS: Record<number, (registry: RegistryData) => RegistryData> = {};
+
+export function createEmptyRegistry(): TreeRegistry {
+  return { schemaVersion: REGISTRY_SCHEMA_VERSION, trees: [] };
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+
+// Bring stored or exported data of any supported version up to the current shape, without checking entries
+function migrateRegistryData(data: unknown): RegistryData {
+  const parsed = registryDataSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('Not a tree registry: expected { schemaVersion, trees }');
+  }
+  if (parsed.data.schemaVersion > REGISTRY_SCHEMA_VERSION) {
+    throw new Error(`Registry schema version ${parsed.data.schemaVersion} is newer than this app supports (${REGISTRY_SCHEMA_VERSION})`);
+  }
+
+  let registry = parsed.data;
+  while (registry.schemaVersion < REGISTRY_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[registry.schemaVersion];
+    if (!migrate) {
+      throw new Error(`No migration from registry schema version ${registry.schemaVersion}`);
+    }
+    registry = { ...migrate(registry), schemaVersion: registry.schemaVersion + 1 };
+  }
+  return registry;
+}
+
+// Migrate and validate a whole registry; any invalid entry rejects it
+export function migrateRegistry(data: unknown): TreeRegistry {
+  const registry = migrateRegistryData(data);
+  const trees = z.array(registeredTreeSchema).safeParse(registry.trees);
+  if (!trees.success) {
+    throw new Error(`Invalid tree registry: ${describeIssues(trees.error)}`);
+  }
+  return { schemaVersion: registry.schemaVersion, trees: trees.data };
+}
+
+export function loadTreeRegistry(): TreeRegistry {
+  const stored = localStorage.getItem(REGISTRY_STORAGE_KEY);
+  if (!stored) {
+    return createEmptyRegistry();
+  }
+
+  try {
+    return migrateRegistry(JSON.parse(stored));
+  } catch (error) {
+    // Keep the unreadable copy around instead of overwriting it on the next save
+    console.error('Could not load tree registry:', error);
+    localStorage.setItem(`${REGISTRY_STORAGE_KEY}:backup`, stored);
+    return createEmptyRegistry();
+  }
+}
+
+export function saveTreeRegistry(registry: TreeRegistry) {
+  localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+}
+
+const isSameTree = (a: RegisteredTree, b: { address: string; network: string }) =>
+  a.address === b.address && a.network === b.network;
+
+// Add a tree, or refresh its parameters while keeping the user's label and notes
+export function upsertRegisteredTree(registry: TreeRegistry, tree: RegisteredTree): TreeRegistry {
+  const existing = registry.trees.find((entry) => isSameTree(entry, tree));
+  if (!existing) {
+    return { ...registry, trees: [...registry.trees, tree] };
+  }
+
+  const merged: RegisteredTree = {
+    ...existing,
+    ...tree,
+    creationSignature: tree.creationSignature ?? existing.creationSignature,
+    source: existing.source === 'created' ? 'created' : tree.source,
+    label: existing.label || tree.label,
+    notes: existing.notes || tree.notes,
+    addedAt: existing.addedAt
+  };
+  return { ...registry, trees: registry.trees.map((entry) => (entry === existing ? merged : entry)) };
+}
+
+export function updateRegisteredTree(
+  registry: TreeRegistry,
+  tree: { address: string; network: string },
+  changes: Partial<Pick<RegisteredTree, 'label' | 'notes'>>
+): TreeRegistry {
+  return {
+    ...registry,
+    trees: registry.trees.map((entry) => (isSameTree(entry, tree) ? { ...entry, ...changes } : entry))
+  };
+}
+
+export function removeRegisteredTree(registry: TreeRegistry, tree: { address: string; network: string }): TreeRegistry {
+  return { ...registry, trees: registry.trees.filter((entry) => !isSameTree(entry, tree)) };
+}
+
+export function sortRegisteredTrees(
+  trees: RegisteredTree[],
+  key: RegistrySortKey,
+  direction: 'asc' | 'desc' = 'asc'
+): RegisteredTree[] {
+  const compare = (a: RegisteredTree, b: RegisteredTree): number => {
+    switch (key) {
+      case 'capacity':
+        return a.maxDepth - b.maxDepth;
+      case 'label':
+        return (a.label || a.address).localeCompare(b.label || b.address);
+      case 'network':
+        return a.network.localeCompare(b.network);
+      case 'addedAt':
+        return a.addedAt.localeCompare(b.addedAt);
+    }
+  };
+  const sorted = [...trees].sort(compare);
+  return direction === 'asc' ? sorted : sorted.reverse();
+}
+
+export function exportTreeRegistry(registry: TreeRegistry): string {
+  return JSON.stringify(registry, null, 2);
+}
+
+// Merge an exported registry into the current one; existing labels and notes win
+export function importTreeRegistry(
+  registry: TreeRegistry,
+  json: string
+): { registry: TreeRegistry; added: number; errors: string[] } {
+  const imported = migrateRegistryData(JSON.parse(json));
+  const errors: string[] = [];
+  let next = registry;
+  let added = 0;
+
+  imported.trees.forEach((entry, index) => {
+    const parsed = importedTreeSchema.safeParse(entry);
+    if (!parsed.success) {
+      errors.push(`Tree ${index + 1}: ${describeIssues(parsed.error)}`);
+      return;
+    }
+    const tree = parsed.data;
+    if (!next.trees.some((existing) => isSameTree(existing, tree))) {
+      added++;
+    }
+    next = upsertRegisteredTree(next, {
+      ...tree,
+      treeConfigAddress: tree.treeConfigAddress || getTreeAuthority(new PublicKey(tree.address))[0].toString(),
+      creationSignature: tree.creationSignature ?? null,
+      source: tree.source === 'created' ? 'created' : 'imported',
+      label: tree.label ?? '',
+      notes: tree.notes ?? '',
+      addedAt: tree.addedAt ?? new Date().toISOString()
+    });
+  });
+
+  return { registry: next, added, errors };
+}
+
+// Build a registry entry for an existing tree from its on-chain account
+export async function fetchRegisteredTree(
+  connection: Connection,
+  address: PublicKey,
+  network: string
+): Promise<RegisteredTree> {
+  const tree = await getTreeInfo(connection, address);
+  if (!tree) {
+    throw new Error(`No concurrent merkle tree found at ${address.toString()}`);
+  }
+
+  return {
+    address: address.toString(),
+    treeConfigAddress: getTreeAuthority(address)[0].toString(),
+    network,
+    maxDepth: tree.maxDepth,
+    maxBufferSize: tree.maxBufferSize,
+    canopyDepth: tree.canopyDepth,
+    creationSignature: null,
+    source: 'imported',
+    label: '',
+    notes: '',
+    addedAt: new Date().toISOString()
+  };
+}
+
+// Leaves appended so far, from the parsed tree account
+export async function getTreeFillLevel(connection: Connection, address: PublicKey): Promise<TreeFillLevel> {
+  const tree = await getTreeInfo(connection, address);
+  if (!tree) {
+    throw new Error(`No concurrent merkle tree found at ${address.toString()}`);
+  }
+  return { minted: tree.rightmostIndex, capacity: Math.pow(2, tree.maxDepth) };
+}
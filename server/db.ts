@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import ws from 'ws';
+import * as schema from '@shared/schema';
+
+// Node has no global WebSocket for the Neon driver to use
+neonConfig.webSocketConstructor = ws;
+
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Any Postgres driver with this schema, so tests can run the storage on an in-process database
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
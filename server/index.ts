@@ -1,6 +1,7 @@
 import express from 'express';
 import { createServer as createViteServer } from 'vite';
 import path from 'path';
+import { registerRoutes } from './routes';
 
 async function startServer() {
   const app = express();
@@ -39,6 +40,9 @@ async function startServer() {
       });
     });
 
+    // REST API for tree operations, ahead of the SPA fallback
+    registerRoutes(app);
+
     // Add middleware to override host header and bypass Vite's allowedHosts check
     app.use('*', (req, res, next) => {
       // Override the host header to bypass Vite's allowedHosts check
@@ -0,0 +1,343 @@
+import express, { type NextFunction, type Request, type Response, type Router } from 'express';
+import { clusterApiUrl, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { getTreeConfig, type TreeConfig } from '../client/src/lib/bubblegum';
+import { classifyError, InvalidConfig, RpcAuthError, RpcUnreachable } from '../client/src/lib/errors';
+import {
+  buildCreateTreeTransaction,
+  getTreeInfo,
+  isValidDepthSizePair,
+  MAX_CANOPY_DEPTH,
+  type ConcurrentMerkleTreeAccount
+} from '../client/src/lib/merkle-tree';
+import { planTree } from '../client/src/lib/planner';
+import { MAX_COMPUTE_UNIT_LIMIT } from '../client/src/lib/priority-fees';
+import { getTreeHistoryPage } from '../client/src/lib/tree-history';
+import { updateTreeSchema } from '@shared/schema';
+import { createStorage, type IStorage } from './storage';
+
+// Every error response is { error: { code, message, details? } }
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const publicKeySchema = z.string().refine((value) => {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid base58 public key');
+
+const priorityFeeSchema = z.object({
+  computeUnitLimit: z.number().int().positive().max(MAX_COMPUTE_UNIT_LIMIT),
+  microLamportsPerComputeUnit: z.number().int().nonnegative()
+});
+
+const planRequestSchema = z.object({
+  expectedMints: z.number().int().positive(),
+  concurrentMintsPerSlot: z.number().int().positive().default(1),
+  maxProofBytes: z.number().int().nonnegative(),
+  priorityFee: priorityFeeSchema.optional()
+});
+
+const buildRequestSchema = z
+  .object({
+    payer: publicKeySchema,
+    // Defaults to the payer
+    treeCreator: publicKeySchema.optional(),
+    maxDepth: z.number().int().positive(),
+    maxBufferSize: z.number().int().positive(),
+    canopyDepth: z.number().int().nonnegative().max(MAX_CANOPY_DEPTH).default(0),
+    public: z.boolean().default(false),
+    priorityFee: priorityFeeSchema.optional()
+  })
+  .refine((body) => isValidDepthSizePair(body.maxDepth, body.maxBufferSize), {
+    message: 'Unsupported max depth and buffer size pair',
+    path: ['maxBufferSize']
+  })
+  .refine((body) => body.canopyDepth < body.maxDepth, {
+    message: 'Canopy depth must be less than max depth',
+    path: ['canopyDepth']
+  });
+
+const historyQuerySchema = z.object({
+  before: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25)
+});
+
+const registerTreeRequestSchema = z.object({
+  address: publicKeySchema,
+  creationSignature: z.string().optional(),
+  label: z.string().max(200).optional(),
+  notes: z.string().max(5000).optional()
+});
+
+const manifestRowSchema = z.object({
+  leafOwner: publicKeySchema,
+  leafDelegate: publicKeySchema.optional(),
+  name: z.string(),
+  symbol: z.string(),
+  uri: z.string(),
+  sellerFeeBasisPoints: z.number().int().min(0).max(10000),
+  creators: z.array(z.object({ address: publicKeySchema, share: z.number().int().min(0).max(100) })),
+  collectionMint: publicKeySchema.optional()
+});
+
+const createMintJobSchema = z.object({
+  rows: z.array(manifestRowSchema).min(1).max(10000)
+});
+
+const updateMintJobRowsSchema = z.object({
+  rowIndexes: z.array(z.number().int().nonnegative()).min(1),
+  state: z.object({
+    status: z.enum(['pending', 'sent', 'confirmed', 'failed']),
+    signature: z.string().optional(),
+    blockhash: z.string().optional(),
+    lastValidBlockHeight: z.number().int().nonnegative().optional(),
+    assetId: z.string().optional(),
+    error: z.string().optional()
+  })
+});
+
+const idSchema = z.coerce.number().int().positive();
+
+function parse<T extends z.ZodTypeAny>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new ApiError(400, 'invalid_request', fromZodError(result.error).message, result.error.issues);
+  }
+  return result.data;
+}
+
+function parseAddress(value: string): PublicKey {
+  return new PublicKey(parse(publicKeySchema, value));
+}
+
+// Express 4 doesn't forward rejected promises to the error handler on its own
+const asyncHandler = (handler: (req: Request, res: Response) => Promise<void>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+
+// JSON-safe view of the parsed account: keys and nodes as base58
+function serializeTreeAccount(tree: ConcurrentMerkleTreeAccount, full: boolean) {
+  return {
+    maxDepth: tree.maxDepth,
+    maxBufferSize: tree.maxBufferSize,
+    canopyDepth: tree.canopyDepth,
+    capacity: Math.pow(2, tree.maxDepth),
+    authority: tree.authority.toString(),
+    creationSlot: tree.creationSlot,
+    sequenceNumber: tree.sequenceNumber,
+    activeIndex: tree.activeIndex,
+    bufferSize: tree.bufferSize,
+    currentRoot: new PublicKey(tree.currentRoot).toString(),
+    rightmostIndex: tree.rightmostIndex,
+    rightmostLeaf: new PublicKey(tree.rightmostLeaf).toString(),
+    // The changelog and canopy can run to megabytes, so they are opt-in
+    ...(full && {
+      changeLogs: tree.changeLogs.map((changeLog) => ({
+        root: new PublicKey(changeLog.root).toString(),
+        pathNodes: changeLog.pathNodes.map((node) => new PublicKey(node).toString()),
+        index: changeLog.index
+      })),
+      canopy: tree.canopy.map((node) => new PublicKey(node).toString())
+    })
+  };
+}
+
+function serializeTreeConfig(config: TreeConfig) {
+  return {
+    address: config.address.toString(),
+    treeCreator: config.treeCreator.toString(),
+    treeDelegate: config.treeDelegate.toString(),
+    totalMintCapacity: config.totalMintCapacity,
+    numMinted: config.numMinted,
+    isPublic: config.isPublic,
+    isDecompressible: config.isDecompressible
+  };
+}
+
+// network names the cluster behind connection; saved trees are keyed by (address, network)
+export function createApiRouter(connection: Connection, storage: IStorage, network: string): Router {
+  const router = express.Router();
+  // Parsed here rather than app-wide so malformed bodies reach the JSON error handler below
+  router.use(express.json());
+
+  router.post('/trees/plan', asyncHandler(async (req, res) => {
+    const { priorityFee, ...input } = parse(planRequestSchema, req.body);
+    res.json(await planTree(connection, input, priorityFee));
+  }));
+
+  router.get('/trees/:address', asyncHandler(async (req, res) => {
+    const address = parseAddress(req.params.address);
+    const [tree, config] = await Promise.all([getTreeInfo(connection, address), getTreeConfig(connection, address)]);
+    if (!tree) {
+      throw new ApiError(404, 'not_found', `No concurrent merkle tree found at ${address.toString()}`);
+    }
+
+    res.json({
+      address: address.toString(),
+      tree: serializeTreeAccount(tree, req.query.full === 'true'),
+      config: config ? serializeTreeConfig(config) : null
+    });
+  }));
+
+  router.get('/trees/:address/history', asyncHandler(async (req, res) => {
+    const address = parseAddress(req.params.address);
+    const { before, limit } = parse(historyQuerySchema, req.query);
+    res.json(await getTreeHistoryPage(connection, address, { before, limit }));
+  }));
+
+  // The tree keypair signs here and is then discarded; the caller signs as payer and submits
+  router.post('/trees/build', asyncHandler(async (req, res) => {
+    const body = parse(buildRequestSchema, req.body);
+    const payer = new PublicKey(body.payer);
+
+    const built = await buildCreateTreeTransaction(
+      connection,
+      payer,
+      Keypair.generate(),
+      { maxDepth: body.maxDepth, maxBufferSize: body.maxBufferSize, canopyDepth: body.canopyDepth, public: body.public },
+      body.treeCreator ? new PublicKey(body.treeCreator) : payer,
+      body.priorityFee
+    );
+
+    res.json({
+      transaction: built.transaction.serialize({ requireAllSignatures: false }).toString('base64'),
+      treeAddress: built.treeAddress,
+      treeConfigAddress: built.treeConfigAddress,
+      blockhash: built.blockhash,
+      lastValidBlockHeight: built.lastValidBlockHeight
+    });
+  }));
+
+  // Shared registry: the team-wide counterpart of each browser's local tree registry
+  router.get('/registry/trees', asyncHandler(async (req, res) => {
+    res.json(await storage.listTrees(typeof req.query.network === 'string' ? req.query.network : undefined));
+  }));
+
+  // Parameters, authority and creation slot come from the account, never from the request
+  router.post('/registry/trees', asyncHandler(async (req, res) => {
+    const body = parse(registerTreeRequestSchema, req.body);
+    const address = new PublicKey(body.address);
+    const [tree, config] = await Promise.all([getTreeInfo(connection, address), getTreeConfig(connection, address)]);
+    if (!tree) {
+      throw new ApiError(404, 'not_found', `No concurrent merkle tree found at ${body.address} on ${network}`);
+    }
+
+    res.status(201).json(await storage.upsertTree({
+      address: body.address,
+      network,
+      maxDepth: tree.maxDepth,
+      maxBufferSize: tree.maxBufferSize,
+      canopyDepth: tree.canopyDepth,
+      authority: tree.authority.toString(),
+      treeCreator: config ? config.treeCreator.toString() : null,
+      createdSlot: tree.creationSlot,
+      creationSignature: body.creationSignature ?? null,
+      label: body.label,
+      notes: body.notes
+    }));
+  }));
+
+  router.patch('/registry/trees/:id', asyncHandler(async (req, res) => {
+    const tree = await storage.updateTree(parse(idSchema, req.params.id), parse(updateTreeSchema, req.body));
+    if (!tree) {
+      throw new ApiError(404, 'not_found', `No saved tree with id ${req.params.id}`);
+    }
+    res.json(tree);
+  }));
+
+  router.delete('/registry/trees/:id', asyncHandler(async (req, res) => {
+    if (!(await storage.deleteTree(parse(idSchema, req.params.id)))) {
+      throw new ApiError(404, 'not_found', `No saved tree with id ${req.params.id}`);
+    }
+    res.status(204).end();
+  }));
+
+  router.get('/registry/trees/:id/jobs', asyncHandler(async (req, res) => {
+    res.json(await storage.listMintJobs(parse(idSchema, req.params.id)));
+  }));
+
+  router.post('/registry/trees/:id/jobs', asyncHandler(async (req, res) => {
+    const treeId = parse(idSchema, req.params.id);
+    const { rows } = parse(createMintJobSchema, req.body);
+    if (!(await storage.getTree(treeId))) {
+      throw new ApiError(404, 'not_found', `No saved tree with id ${req.params.id}`);
+    }
+    res.status(201).json(await storage.createMintJob(treeId, rows));
+  }));
+
+  router.get('/jobs/:id', asyncHandler(async (req, res) => {
+    const job = await storage.getMintJob(parse(idSchema, req.params.id));
+    if (!job) {
+      throw new ApiError(404, 'not_found', `No mint job with id ${req.params.id}`);
+    }
+    res.json(job);
+  }));
+
+  // Clients report row progress as they sign and confirm, same states as the local batch mint job
+  router.patch('/jobs/:id/rows', asyncHandler(async (req, res) => {
+    const jobId = parse(idSchema, req.params.id);
+    const { rowIndexes, state } = parse(updateMintJobRowsSchema, req.body);
+    const updated = await storage.updateMintJobRows(jobId, rowIndexes, state);
+    if (updated.length === 0) {
+      throw new ApiError(404, 'not_found', `No rows ${rowIndexes.join(', ')} in mint job ${jobId}`);
+    }
+    res.json(updated);
+  }));
+
+  router.use((req, _res, next) => {
+    next(new ApiError(404, 'not_found', `No route for ${req.method} ${req.baseUrl}${req.path}`));
+  });
+
+  router.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    if (error instanceof ApiError) {
+      res.status(error.status).json({ error: { code: error.code, message: error.message, details: error.details } });
+      return;
+    }
+    // Malformed JSON bodies surface from express.json() as a SyntaxError with status 400
+    if (error instanceof SyntaxError && (error as { status?: number }).status === 400) {
+      res.status(400).json({ error: { code: 'invalid_json', message: 'Request body is not valid JSON' } });
+      return;
+    }
+
+    const classified = classifyError(error);
+    if (classified instanceof InvalidConfig) {
+      res.status(400).json({ error: { code: 'invalid_config', message: classified.message, details: { field: classified.field } } });
+      return;
+    }
+    // The server's own RPC failing is an upstream problem, not the caller's
+    if (classified instanceof RpcAuthError || classified instanceof RpcUnreachable) {
+      console.error('RPC request failed:', error);
+      res.status(502).json({ error: { code: 'rpc_unavailable', message: 'The upstream Solana RPC request failed' } });
+      return;
+    }
+
+    console.error('API request failed:', error);
+    res.status(500).json({ error: { code: 'internal_error', message: classified.message } });
+  });
+
+  return router;
+}
+
+export function registerRoutes(app: express.Express) {
+  // SOLANA_NETWORK must name the cluster SOLANA_RPC_URL points at
+  const network = process.env.SOLANA_NETWORK || 'devnet';
+  const rpcUrl = process.env.SOLANA_RPC_URL || clusterApiUrl('devnet');
+  console.log(`🔗 API routes using ${network} RPC:`, rpcUrl.replace(/api[-_]?key=[^&]+/i, 'api-key=***'));
+
+  app.use('/api', createApiRouter(new Connection(rpcUrl, 'confirmed'), createStorage(), network));
+}
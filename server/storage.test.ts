@@ -0,0 +1,208 @@
+import { createRequire } from 'module';
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import * as schema from '@shared/schema';
+import type { InsertTree } from '@shared/schema';
+import type { ManifestRow } from '../client/src/lib/batch-mint';
+import type { Database } from './db';
+import { DatabaseStorage, MemStorage, type IStorage } from './storage';
+
+// drizzle-kit's ESM build requires Node builtins dynamically, which fails under Vite; its CommonJS build loads
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api') as typeof import('drizzle-kit/api');
+
+const TREE: InsertTree = {
+  address: 'Ei9Nq5UA48vfuhCdPgzddVaKrX4YZxtCgvfjnTKvPuv7',
+  network: 'devnet',
+  maxDepth: 14,
+  maxBufferSize: 64,
+  canopyDepth: 0,
+  authority: 'HhRuWUkVLSVkPhSK1dSrdHn8pCXwDEs8dXmjVLX2cTaP',
+  createdSlot: 285_431_207
+};
+
+const manifestRow = (index: number): ManifestRow => ({
+  leafOwner: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+  name: `Ticket ${index}`,
+  symbol: 'TIX',
+  uri: `https://example.com/${index}.json`,
+  sellerFeeBasisPoints: 0,
+  creators: [{ address: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM', share: 100 }]
+});
+
+// In-process Postgres with the tables created from the Drizzle schema itself
+async function createTestDatabase() {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson({ ...schema }));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return { client, db: drizzle({ client, schema }) as unknown as Database };
+}
+
+let database: Awaited<ReturnType<typeof createTestDatabase>>;
+
+beforeAll(async () => {
+  database = await createTestDatabase();
+});
+
+afterAll(async () => {
+  await database.client.close();
+});
+
+async function resetDatabase() {
+  await database.client.exec('TRUNCATE trees, mint_jobs, mint_job_rows RESTART IDENTITY CASCADE');
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ['MemStorage', async () => new MemStorage()],
+  ['DatabaseStorage', async () => {
+    await resetDatabase();
+    return new DatabaseStorage(database.db);
+  }]
+];
+
+describe.each(implementations)('%s', (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  it('creates and reads a tree with defaults', async () => {
+    const created = await storage.upsertTree(TREE);
+    expect(created).toMatchObject({ ...TREE, id: 1, treeCreator: null, creationSignature: null, label: '', notes: '' });
+    expect(created.createdAt).toBeInstanceOf(Date);
+    expect(await storage.getTree(created.id)).toEqual(created);
+    expect(await storage.getTree(999)).toBeUndefined();
+  });
+
+  it('lists trees newest first and filters by network', async () => {
+    const first = await storage.upsertTree(TREE);
+    const second = await storage.upsertTree({ ...TREE, address: '4mKMX1V2ZJo7kXB3DgbYjAdNGmV9F4bfnRuCzANaDJTU' });
+    const mainnet = await storage.upsertTree({ ...TREE, network: 'mainnet-beta' });
+
+    expect((await storage.listTrees()).map((tree) => tree.id)).toEqual([mainnet.id, second.id, first.id]);
+    expect((await storage.listTrees('devnet')).map((tree) => tree.id)).toEqual([second.id, first.id]);
+    expect(await storage.listTrees('testnet')).toEqual([]);
+  });
+
+  it('keeps one tree per address and network', async () => {
+    const created = await storage.upsertTree({ ...TREE, label: 'Drops', creationSignature: 'sig', treeCreator: TREE.authority });
+    const refreshed = await storage.upsertTree({ ...TREE, canopyDepth: 5, label: 'Ignored' });
+
+    expect(refreshed.id).toBe(created.id);
+    expect(refreshed).toMatchObject({ canopyDepth: 5, label: 'Drops', creationSignature: 'sig', treeCreator: TREE.authority });
+    expect(await storage.listTrees()).toHaveLength(1);
+
+    const otherNetwork = await storage.upsertTree({ ...TREE, network: 'mainnet-beta' });
+    expect(otherNetwork.id).not.toBe(created.id);
+  });
+
+  it('updates labels and notes', async () => {
+    const tree = await storage.upsertTree(TREE);
+    expect(await storage.updateTree(tree.id, { label: 'Renamed' })).toMatchObject({ label: 'Renamed', notes: '' });
+    expect(await storage.updateTree(tree.id, { notes: 'Season 2' })).toMatchObject({ label: 'Renamed', notes: 'Season 2' });
+    expect(await storage.updateTree(999, { label: 'Missing' })).toBeUndefined();
+  });
+
+  it('creates mint jobs with their rows in order', async () => {
+    const tree = await storage.upsertTree(TREE);
+    const job = await storage.createMintJob(tree.id, [manifestRow(0), manifestRow(1), manifestRow(2)]);
+
+    expect(job.treeId).toBe(tree.id);
+    expect(job.rows.map((row) => [row.rowIndex, row.status, row.manifest.name])).toEqual([
+      [0, 'pending', 'Ticket 0'],
+      [1, 'pending', 'Ticket 1'],
+      [2, 'pending', 'Ticket 2']
+    ]);
+    expect(await storage.getMintJob(job.id)).toEqual(job);
+    expect(await storage.getMintJob(999)).toBeUndefined();
+
+    const empty = await storage.createMintJob(tree.id, []);
+    expect(empty.rows).toEqual([]);
+    expect((await storage.listMintJobs(tree.id)).map((listed) => listed.id)).toEqual([empty.id, job.id]);
+  });
+
+  it('updates row state and clears fields the new state leaves out', async () => {
+    const tree = await storage.upsertTree(TREE);
+    const job = await storage.createMintJob(tree.id, [manifestRow(0), manifestRow(1), manifestRow(2)]);
+
+    const sent = await storage.updateMintJobRows(job.id, [0, 2], {
+      status: 'sent',
+      signature: 'sig',
+      blockhash: 'hash',
+      lastValidBlockHeight: 1_000
+    });
+    expect(sent.map((row) => row.rowIndex).sort()).toEqual([0, 2]);
+    expect(sent[0]).toMatchObject({ status: 'sent', signature: 'sig', blockhash: 'hash', lastValidBlockHeight: 1_000 });
+
+    const [failed] = await storage.updateMintJobRows(job.id, [2], { status: 'failed', error: 'Blockhash expired' });
+    expect(failed).toMatchObject({ status: 'failed', signature: null, blockhash: null, lastValidBlockHeight: null, error: 'Blockhash expired' });
+
+    expect(await storage.updateMintJobRows(job.id, [], { status: 'confirmed' })).toEqual([]);
+    expect(await storage.updateMintJobRows(999, [0], { status: 'confirmed' })).toEqual([]);
+
+    const stored = await storage.getMintJob(job.id);
+    expect(stored!.rows.map((row) => row.status)).toEqual(['sent', 'pending', 'failed']);
+  });
+
+  it('deletes a tree with its mint jobs', async () => {
+    const tree = await storage.upsertTree(TREE);
+    const job = await storage.createMintJob(tree.id, [manifestRow(0)]);
+
+    expect(await storage.deleteTree(tree.id)).toBe(true);
+    expect(await storage.getTree(tree.id)).toBeUndefined();
+    expect(await storage.getMintJob(job.id)).toBeUndefined();
+    expect(await storage.deleteTree(tree.id)).toBe(false);
+  });
+});
+
+describe('DatabaseStorage constraints', () => {
+  beforeEach(resetDatabase);
+
+  it('rejects a second tree with the same address and network', async () => {
+    await database.db.insert(schema.trees).values(TREE);
+    await expect(database.db.insert(schema.trees).values(TREE)).rejects.toThrow(/trees_address_network_idx/);
+  });
+
+  it('rejects a second row with the same index in a job', async () => {
+    const storage = new DatabaseStorage(database.db);
+    const tree = await storage.upsertTree(TREE);
+    const job = await storage.createMintJob(tree.id, [manifestRow(0)]);
+    await expect(
+      database.db.insert(schema.mintJobRows).values({ jobId: job.id, rowIndex: 0, manifest: manifestRow(0) })
+    ).rejects.toThrow(/mint_job_rows_job_row_idx/);
+  });
+});
+
+describe('MemStorage and DatabaseStorage', () => {
+  beforeEach(resetDatabase);
+
+  // Timestamps differ between the two by construction
+  const withoutTimestamps = (value: unknown): unknown =>
+    JSON.parse(JSON.stringify(value, (key, field) => (key === 'createdAt' || key === 'updatedAt' ? undefined : field)));
+
+  it('return the same results for the same operations', async () => {
+    const run = async (storage: IStorage) => {
+      const results: unknown[] = [];
+      const tree = await storage.upsertTree(TREE);
+      results.push(tree);
+      results.push(await storage.upsertTree({ ...TREE, network: 'mainnet-beta', label: 'Main' }));
+      results.push(await storage.upsertTree({ ...TREE, canopyDepth: 3, creationSignature: 'sig' }));
+      results.push(await storage.updateTree(tree.id, { notes: 'Notes' }));
+      const job = await storage.createMintJob(tree.id, [manifestRow(0), manifestRow(1)]);
+      results.push(job);
+      results.push(await storage.updateMintJobRows(job.id, [1], { status: 'confirmed', signature: 'sig', assetId: 'asset' }));
+      results.push(await storage.getMintJob(job.id));
+      results.push(await storage.listMintJobs(tree.id));
+      results.push(await storage.listTrees());
+      results.push(await storage.deleteTree(tree.id));
+      results.push(await storage.listTrees());
+      results.push(await storage.getMintJob(job.id));
+      return withoutTimestamps(results);
+    };
+
+    expect(await run(new DatabaseStorage(database.db))).toEqual(await run(new MemStorage()));
+  });
+});
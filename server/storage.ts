@@ -0,0 +1,248 @@
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import {
+  mintJobRows,
+  mintJobs,
+  trees,
+  type InsertTree,
+  type MintJob,
+  type MintJobRow,
+  type MintJobWithRows,
+  type Tree,
+  type UpdateTree
+} from '@shared/schema';
+import type { BatchRowState, ManifestRow } from '../client/src/lib/batch-mint';
+import { createDatabase, type Database } from './db';
+
+export interface IStorage {
+  listTrees(network?: string): Promise<Tree[]>;
+  getTree(id: number): Promise<Tree | undefined>;
+  // Insert, or refresh the on-chain fields of an existing (address, network) while keeping its label and notes
+  upsertTree(tree: InsertTree): Promise<Tree>;
+  updateTree(id: number, changes: UpdateTree): Promise<Tree | undefined>;
+  deleteTree(id: number): Promise<boolean>;
+
+  createMintJob(treeId: number, rows: ManifestRow[]): Promise<MintJobWithRows>;
+  listMintJobs(treeId: number): Promise<MintJob[]>;
+  getMintJob(id: number): Promise<MintJobWithRows | undefined>;
+  updateMintJobRows(jobId: number, rowIndexes: number[], state: BatchRowState): Promise<MintJobRow[]>;
+}
+
+// Row state columns are nullable; undefined fields in a BatchRowState clear them
+function rowStateColumns(state: BatchRowState) {
+  return {
+    status: state.status,
+    signature: state.signature ?? null,
+    blockhash: state.blockhash ?? null,
+    lastValidBlockHeight: state.lastValidBlockHeight ?? null,
+    assetId: state.assetId ?? null,
+    error: state.error ?? null,
+    updatedAt: new Date()
+  };
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  async listTrees(network?: string): Promise<Tree[]> {
+    return this.db
+      .select()
+      .from(trees)
+      .where(network ? eq(trees.network, network) : undefined)
+      .orderBy(desc(trees.createdAt), desc(trees.id));
+  }
+
+  async getTree(id: number): Promise<Tree | undefined> {
+    const [tree] = await this.db.select().from(trees).where(eq(trees.id, id));
+    return tree;
+  }
+
+  async upsertTree(tree: InsertTree): Promise<Tree> {
+    const { label, notes, treeCreator, creationSignature, ...onChain } = tree;
+    const [saved] = await this.db
+      .insert(trees)
+      .values(tree)
+      .onConflictDoUpdate({
+        target: [trees.address, trees.network],
+        // A re-registration without a creation signature must not erase the known one
+        set: { ...onChain, ...(treeCreator && { treeCreator }), ...(creationSignature && { creationSignature }) }
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateTree(id: number, changes: UpdateTree): Promise<Tree | undefined> {
+    const [tree] = await this.db.update(trees).set(changes).where(eq(trees.id, id)).returning();
+    return tree;
+  }
+
+  async deleteTree(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(trees).where(eq(trees.id, id)).returning({ id: trees.id });
+    return deleted.length > 0;
+  }
+
+  async createMintJob(treeId: number, rows: ManifestRow[]): Promise<MintJobWithRows> {
+    return this.db.transaction(async (tx) => {
+      const [job] = await tx.insert(mintJobs).values({ treeId }).returning();
+      const savedRows = rows.length > 0
+        ? await tx
+          .insert(mintJobRows)
+          .values(rows.map((manifest, rowIndex) => ({ jobId: job.id, rowIndex, manifest })))
+          .returning()
+        : [];
+      return { ...job, rows: savedRows };
+    });
+  }
+
+  async listMintJobs(treeId: number): Promise<MintJob[]> {
+    return this.db
+      .select()
+      .from(mintJobs)
+      .where(eq(mintJobs.treeId, treeId))
+      .orderBy(desc(mintJobs.createdAt), desc(mintJobs.id));
+  }
+
+  async getMintJob(id: number): Promise<MintJobWithRows | undefined> {
+    const [job] = await this.db.select().from(mintJobs).where(eq(mintJobs.id, id));
+    if (!job) {
+      return undefined;
+    }
+    const rows = await this.db.select().from(mintJobRows).where(eq(mintJobRows.jobId, id)).orderBy(asc(mintJobRows.rowIndex));
+    return { ...job, rows };
+  }
+
+  async updateMintJobRows(jobId: number, rowIndexes: number[], state: BatchRowState): Promise<MintJobRow[]> {
+    if (rowIndexes.length === 0) {
+      return [];
+    }
+    return this.db
+      .update(mintJobRows)
+      .set(rowStateColumns(state))
+      .where(and(eq(mintJobRows.jobId, jobId), inArray(mintJobRows.rowIndex, rowIndexes)))
+      .returning();
+  }
+}
+
+// Same order as the database queries; ids break ties between records created in the same millisecond
+const newestFirst = (a: { id: number; createdAt: Date }, b: { id: number; createdAt: Date }) =>
+  b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id;
+
+// Process-local fallback for running the server without DATABASE_URL; nothing survives a restart
+export class MemStorage implements IStorage {
+  private trees = new Map<number, Tree>();
+  private jobs = new Map<number, MintJob>();
+  private rows = new Map<number, MintJobRow[]>();
+  private nextTreeId = 1;
+  private nextJobId = 1;
+  private nextRowId = 1;
+
+  async listTrees(network?: string): Promise<Tree[]> {
+    return Array.from(this.trees.values())
+      .filter((tree) => !network || tree.network === network)
+      .sort(newestFirst);
+  }
+
+  async getTree(id: number): Promise<Tree | undefined> {
+    return this.trees.get(id);
+  }
+
+  async upsertTree(tree: InsertTree): Promise<Tree> {
+    const existing = Array.from(this.trees.values()).find(
+      (entry) => entry.address === tree.address && entry.network === tree.network
+    );
+    const { label, notes, ...onChain } = tree;
+    const saved: Tree = existing
+      ? { ...existing, ...onChain, treeCreator: onChain.treeCreator ?? existing.treeCreator, creationSignature: onChain.creationSignature ?? existing.creationSignature }
+      : {
+        ...onChain,
+        id: this.nextTreeId++,
+        treeCreator: onChain.treeCreator ?? null,
+        creationSignature: onChain.creationSignature ?? null,
+        label: label ?? '',
+        notes: notes ?? '',
+        createdAt: new Date()
+      };
+    this.trees.set(saved.id, saved);
+    return saved;
+  }
+
+  async updateTree(id: number, changes: UpdateTree): Promise<Tree | undefined> {
+    const tree = this.trees.get(id);
+    if (!tree) {
+      return undefined;
+    }
+    const updated = { ...tree, ...changes };
+    this.trees.set(id, updated);
+    return updated;
+  }
+
+  async deleteTree(id: number): Promise<boolean> {
+    if (!this.trees.delete(id)) {
+      return false;
+    }
+    // Match the ON DELETE CASCADE of the database schema
+    Array.from(this.jobs.values()).forEach((job) => {
+      if (job.treeId === id) {
+        this.jobs.delete(job.id);
+        this.rows.delete(job.id);
+      }
+    });
+    return true;
+  }
+
+  async createMintJob(treeId: number, rows: ManifestRow[]): Promise<MintJobWithRows> {
+    const job: MintJob = { id: this.nextJobId++, treeId, createdAt: new Date() };
+    const jobRows: MintJobRow[] = rows.map((manifest, rowIndex) => ({
+      id: this.nextRowId++,
+      jobId: job.id,
+      rowIndex,
+      manifest,
+      status: 'pending',
+      signature: null,
+      blockhash: null,
+      lastValidBlockHeight: null,
+      assetId: null,
+      error: null,
+      updatedAt: job.createdAt
+    }));
+    this.jobs.set(job.id, job);
+    this.rows.set(job.id, jobRows);
+    return { ...job, rows: jobRows };
+  }
+
+  async listMintJobs(treeId: number): Promise<MintJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.treeId === treeId)
+      .sort(newestFirst);
+  }
+
+  async getMintJob(id: number): Promise<MintJobWithRows | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job, rows: this.rows.get(id) ?? [] } : undefined;
+  }
+
+  async updateMintJobRows(jobId: number, rowIndexes: number[], state: BatchRowState): Promise<MintJobRow[]> {
+    const jobRows = this.rows.get(jobId);
+    if (!jobRows) {
+      return [];
+    }
+    const columns = rowStateColumns(state);
+    const updated: MintJobRow[] = [];
+    this.rows.set(jobId, jobRows.map((row) => {
+      if (!rowIndexes.includes(row.rowIndex)) {
+        return row;
+      }
+      const next = { ...row, ...columns };
+      updated.push(next);
+      return next;
+    }));
+    return updated;
+  }
+}
+
+export function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    console.warn('⚠️ DATABASE_URL is not set, storing trees and mint jobs in memory');
+    return new MemStorage();
+  }
+  return new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+}
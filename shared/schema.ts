@@ -0,0 +1,68 @@
+import { bigint, index, integer, jsonb, pgTable, serial, text, timestamp, uniqueIndex } from 'drizzle-orm/pg-core';
+import { createInsertSchema } from 'drizzle-zod';
+import { z } from 'zod';
+import type { BatchRowStatus, ManifestRow } from '../client/src/lib/batch-mint';
+
+// Shared tree registry: the server-side counterpart of the browser's tree-registry
+export const trees = pgTable(
+  'trees',
+  {
+    id: serial('id').primaryKey(),
+    address: text('address').notNull(),
+    network: text('network').notNull(),
+    maxDepth: integer('max_depth').notNull(),
+    maxBufferSize: integer('max_buffer_size').notNull(),
+    canopyDepth: integer('canopy_depth').notNull(),
+    // Authority stored in the tree account header, i.e. the TreeConfig PDA for Bubblegum trees
+    authority: text('authority').notNull(),
+    treeCreator: text('tree_creator'),
+    createdSlot: bigint('created_slot', { mode: 'number' }).notNull(),
+    creationSignature: text('creation_signature'),
+    label: text('label').notNull().default(''),
+    notes: text('notes').notNull().default(''),
+    createdAt: timestamp('created_at').notNull().defaultNow()
+  },
+  (table) => [uniqueIndex('trees_address_network_idx').on(table.address, table.network)]
+);
+
+export const mintJobs = pgTable('mint_jobs', {
+  id: serial('id').primaryKey(),
+  treeId: integer('tree_id')
+    .notNull()
+    .references(() => trees.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').notNull().defaultNow()
+});
+
+// One manifest row and its send state, mirroring BatchRowState
+export const mintJobRows = pgTable(
+  'mint_job_rows',
+  {
+    id: serial('id').primaryKey(),
+    jobId: integer('job_id')
+      .notNull()
+      .references(() => mintJobs.id, { onDelete: 'cascade' }),
+    rowIndex: integer('row_index').notNull(),
+    manifest: jsonb('manifest').$type<ManifestRow>().notNull(),
+    status: text('status').$type<BatchRowStatus>().notNull().default('pending'),
+    signature: text('signature'),
+    blockhash: text('blockhash'),
+    lastValidBlockHeight: bigint('last_valid_block_height', { mode: 'number' }),
+    assetId: text('asset_id'),
+    error: text('error'),
+    updatedAt: timestamp('updated_at').notNull().defaultNow()
+  },
+  (table) => [
+    uniqueIndex('mint_job_rows_job_row_idx').on(table.jobId, table.rowIndex),
+    index('mint_job_rows_status_idx').on(table.jobId, table.status)
+  ]
+);
+
+export const insertTreeSchema = createInsertSchema(trees).omit({ id: true, createdAt: true });
+export const updateTreeSchema = z.object({ label: z.string().max(200), notes: z.string().max(5000) }).partial();
+
+export type Tree = typeof trees.$inferSelect;
+export type InsertTree = z.infer<typeof insertTreeSchema>;
+export type UpdateTree = z.infer<typeof updateTreeSchema>;
+export type MintJob = typeof mintJobs.$inferSelect;
+export type MintJobRow = typeof mintJobRows.$inferSelect;
+export type MintJobWithRows = MintJob & { rows: MintJobRow[] };
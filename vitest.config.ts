@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+      // The published package's exports point at dist/cjs/index.js, but it ships dist/cjs/src/index.js
+      "@solana/spl-account-compression": path.resolve(
+        import.meta.dirname,
+        "node_modules/@solana/spl-account-compression/dist/cjs/src/index.js",
+      ),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["client/src/**/*.test.ts", "server/**/*.test.ts", "cli/**/*.test.ts"],
+  },
+});